@@ -0,0 +1,41 @@
+/**
+ * Error used to reject the awaited TypedPromises that were cancelled.
+ *
+ * @export
+ * @class CancellationError
+ * @typedef {CancellationError}
+ * @extends {Error}
+ */
+export default class CancellationError extends Error {
+    // kept so `'cancelled' in error` checks keep working
+    public readonly cancelled = true;
+
+    /**
+     * Time in milliseconds since epoch when the promise was cancelled.
+     *
+     * @type {number}
+     */
+    public readonly timestamp: number;
+
+    /**
+     * @param {*} [reason] value passed to `cancel`
+     */
+    constructor(public readonly reason?: any) {
+        super('The promise was cancelled');
+
+        this.name = 'CancellationError';
+        this.timestamp = Date.now();
+    }
+}
+
+/**
+ * Checks if the value is the error thrown by an awaited
+ * TypedPromise that was cancelled.
+ *
+ * @export
+ * @param {unknown} error
+ * @return {error is CancellationError}
+ */
+export function isCancellation(error: unknown): error is CancellationError {
+    return error instanceof CancellationError;
+}
@@ -0,0 +1,85 @@
+import IBodySerializer from './IBodySerializer';
+
+/**
+ * Body types with a built-in serializer.
+ */
+export type BuiltInBodyType =
+    'json' | 'text' | 'form' | 'multipart' | 'binary' | 'stream';
+
+const isInstance = (value: unknown, type: string): boolean =>
+    typeof (globalThis as any)[type] === 'function' &&
+    value instanceof (globalThis as any)[type];
+
+/**
+ * Built-in serializers, by body type.
+ */
+export const defaultSerializers: Record<BuiltInBodyType, IBodySerializer> = {
+    json: {
+        serialize: body => ({
+            body: JSON.stringify(body),
+            contentType: 'application/json',
+        }),
+    },
+    text: {
+        serialize: body => ({
+            body: String(body),
+            contentType: 'text/plain;charset=UTF-8',
+        }),
+    },
+    form: {
+        // url encoded, from URLSearchParams or a plain object
+        serialize: body => ({
+            body: isInstance(body, 'URLSearchParams')
+                ? body
+                : new URLSearchParams(body),
+            contentType: 'application/x-www-form-urlencoded;charset=UTF-8',
+        }),
+    },
+    multipart: {
+        // from FormData or a plain object, fetch sets the boundary
+        serialize: body => {
+            if (isInstance(body, 'FormData')) return { body };
+
+            const form = new FormData();
+            Object.entries(body).forEach(([name, value]) =>
+                form.append(name, value as string | Blob),
+            );
+
+            return { body: form };
+        },
+    },
+    binary: {
+        serialize: body => ({
+            body,
+            contentType:
+                (isInstance(body, 'Blob') && (body as Blob).type) ||
+                'application/octet-stream',
+        }),
+    },
+    stream: {
+        serialize: body => ({ body, contentType: 'application/octet-stream' }),
+    },
+};
+
+/**
+ * Picks the body type from the body value.
+ *
+ * @export
+ * @param {unknown} body
+ * @return {BuiltInBodyType}
+ */
+export function detectBodyType(body: unknown): BuiltInBodyType {
+    if (isInstance(body, 'FormData')) return 'multipart';
+    if (isInstance(body, 'URLSearchParams')) return 'form';
+    if (
+        isInstance(body, 'Blob') ||
+        body instanceof ArrayBuffer ||
+        ArrayBuffer.isView(body)
+    ) {
+        return 'binary';
+    }
+    if (isInstance(body, 'ReadableStream')) return 'stream';
+    if (typeof body === 'string') return 'text';
+
+    return 'json';
+}
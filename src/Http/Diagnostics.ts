@@ -0,0 +1,173 @@
+import ILogger from './ILogger';
+import IProblemJson from './IProblemJson';
+
+/**
+ * Structured events emitted by HttpClient and processPromise:
+ * - request:start and request:end, for each request sent by HttpClient,
+ *   including its retries. `status` is 0 and `error` is set if there was no
+ *   response.
+ * - request:retry, before waiting for the next attempt.
+ * - request:cancel, when the TypedPromise of processPromise is cancelled.
+ * - response:parse-error, the json body couldn't be parsed.
+ * - response:not-problem, the body of a failed response isn't a
+ *   problem+json.
+ */
+export type DiagnosticEvent =
+    | { type: 'request:start'; method: string; url: string }
+    | {
+          type: 'request:end';
+          method: string;
+          url: string;
+          status: number;
+          durationMs: number;
+          error?: unknown;
+      }
+    | {
+          type: 'request:retry';
+          url: string;
+          attempt: number;
+          delay: number;
+          problem: IProblemJson;
+      }
+    | { type: 'request:cancel'; reason: unknown }
+    | {
+          type: 'response:parse-error';
+          url: string;
+          status: number;
+          error: unknown;
+      }
+    | {
+          type: 'response:not-problem';
+          url: string;
+          status: number;
+          contentType: string;
+      };
+
+export type DiagnosticListener = (event: DiagnosticEvent) => void;
+
+/**
+ * Minimum level of the logged events, `silent` disables the logging.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Channel of the diagnostic events. The events are logged with the logger,
+ * if their level is at least `level`, and sent to the subscribers.
+ *
+ * HttpClient and processPromise use the shared `diagnostics` instance unless
+ * another one is given in their options.
+ *
+ * @export
+ * @class Diagnostics
+ * @typedef {Diagnostics}
+ */
+export default class Diagnostics {
+    private listeners: DiagnosticListener[] = [];
+
+    /**
+     * @param {ILogger} [logger=console]
+     * @param {LogLevel} [level='warn'] minimum level logged
+     */
+    constructor(
+        public logger: ILogger = console,
+        public level: LogLevel = 'warn',
+    ) {}
+
+    /**
+     * Adds a listener of every event, even the ones that are not logged.
+     *
+     * @param {DiagnosticListener} listener
+     * @return {() => void} removes the listener
+     */
+    subscribe(listener: DiagnosticListener): () => void {
+        this.listeners.push(listener);
+
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Logs the event and sends it to the subscribers. A throwing listener
+     * doesn't stop the others nor the request.
+     *
+     * @param {DiagnosticEvent} event
+     */
+    emit(event: DiagnosticEvent): void {
+        const [level, message] = describe(event);
+
+        this.log(level, message, event);
+
+        this.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (e) {
+                this.log('error', 'Diagnostic listener threw', e);
+            }
+        });
+    }
+
+    /**
+     * Logs the message if `level` is enabled.
+     *
+     * @param {Exclude<LogLevel, 'silent'>} level
+     * @param {string} message
+     * @param {...unknown[]} details
+     */
+    log(
+        level: Exclude<LogLevel, 'silent'>,
+        message: string,
+        ...details: unknown[]
+    ): void {
+        if (LEVELS.indexOf(level) < LEVELS.indexOf(this.level)) return;
+
+        this.logger[level](message, ...details);
+    }
+}
+
+/**
+ * Shared instance used by default.
+ */
+export const diagnostics = new Diagnostics();
+
+/**
+ * Level and message logged for the event.
+ *
+ * @param {DiagnosticEvent} event
+ * @return {[Exclude<LogLevel, 'silent'>, string]}
+ */
+function describe(
+    event: DiagnosticEvent,
+): [Exclude<LogLevel, 'silent'>, string] {
+    switch (event.type) {
+        case 'request:start':
+            return ['debug', `${event.method} ${event.url}`];
+        case 'request:end':
+            return [
+                'debug',
+                `${event.method} ${event.url} ${event.status} ` +
+                    `in ${event.durationMs}ms`,
+            ];
+        case 'request:retry':
+            return [
+                'info',
+                `Retrying ${event.url} in ${event.delay}ms, ` +
+                    `attempt ${event.attempt} failed with ` +
+                    `${event.problem.status}`,
+            ];
+        case 'request:cancel':
+            return ['debug', 'Request cancelled'];
+        case 'response:parse-error':
+            return [
+                'warn',
+                'Error parsing json on response, returning raw data',
+            ];
+        case 'response:not-problem':
+            return [
+                'warn',
+                "Api server is misbehaving! didn't respond with a problem+json",
+            ];
+    }
+}
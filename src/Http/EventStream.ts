@@ -0,0 +1,194 @@
+import { diagnostics as sharedDiagnostics } from './Diagnostics';
+import IEventStreamOptions from './IEventStreamOptions';
+import IHttpClient from './IHttpClient';
+import IProblemJson from './IProblemJson';
+import IServerSentEvent from './IServerSentEvent';
+import TypedStream from '../TypedStream';
+import { networkErrorProblem, readProblem } from './ProblemTypes';
+import { wait } from './Retry';
+import { EventStreamState, readServerSentEvents } from './StreamDecoders';
+
+/**
+ * Data of each event, by event name. Unnamed events are `message`.
+ */
+export type EventMap = { [event: string]: unknown };
+
+/**
+ * Union of the events of the map, discriminated by `event`.
+ */
+export type TypedEvent<Events extends EventMap> = {
+    [K in keyof Events & string]: IServerSentEvent<Events[K]> & { event: K };
+}[keyof Events & string];
+
+/**
+ * Server-sent events client on top of an HttpClient, so the requests go
+ * through its interceptors and retries. The client timeout is disabled,
+ * as it covers the body and the response doesn't end.
+ *
+ * The data of each event is parsed as json, or kept as text if it isn't.
+ * When the connection is lost, or the server ends the response, it
+ * reconnects after `retryDelay` milliseconds sending the id of the last
+ * event in the Last-Event-ID header. A failed response fails the stream
+ * with its problem, and a 204 response ends it.
+ *
+ * @example
+ * type ChatEvents = { message: Message; typing: { user: string } };
+ *
+ * const events = new EventStream<ChatEvents, IProblemJson>(client, '/chat');
+ *
+ * for await (const e of events) {
+ *     if (e.event === 'message') show(e.data);
+ * }
+ *
+ * @export
+ * @class EventStream
+ * @typedef {EventStream}
+ * @template {EventMap} Events
+ * @template Problem
+ * @extends {TypedStream<TypedEvent<Events>, Problem>}
+ */
+export default class EventStream<
+    Events extends EventMap,
+    Problem extends IProblemJson = IProblemJson,
+> extends TypedStream<TypedEvent<Events>, Problem> {
+    private state: EventStreamState;
+
+    /**
+     * @param {IHttpClient} client
+     * @param {string} path
+     * @param {IEventStreamOptions} [options={}]
+     * @param {(keyof Events & string)[]} [events] names of the events to
+     * read, all of them if undefined
+     */
+    constructor(
+        client: IHttpClient,
+        path: string,
+        options: IEventStreamOptions = {},
+        events?: (keyof Events & string)[],
+    ) {
+        const state: EventStreamState = {
+            lastEventId: options.lastEventId || '',
+        };
+
+        super(signal => connect(client, path, options, state, signal, events));
+
+        this.state = state;
+    }
+
+    /**
+     * Id of the last event received, to resume the stream later.
+     *
+     * @readonly
+     * @type {string}
+     */
+    get lastEventId(): string {
+        return this.state.lastEventId;
+    }
+}
+
+/**
+ * Reads the events, reconnecting when the connection is lost.
+ *
+ * @template {EventMap} Events
+ * @param {IHttpClient} client
+ * @param {string} path
+ * @param {IEventStreamOptions} options
+ * @param {EventStreamState} state
+ * @param {AbortSignal} signal
+ * @param {string[]} [events]
+ * @return {AsyncGenerator<TypedEvent<Events>>}
+ */
+async function* connect<Events extends EventMap>(
+    client: IHttpClient,
+    path: string,
+    options: IEventStreamOptions,
+    state: EventStreamState,
+    signal: AbortSignal,
+    events?: string[],
+): AsyncGenerator<TypedEvent<Events>> {
+    const diagnostics = options.diagnostics || sharedDiagnostics;
+    const maxRetries = options.maxRetries ?? Infinity;
+    let attempt = 0;
+
+    while (true) {
+        let error: unknown = new Error('The event stream was closed');
+        let response: Response | undefined;
+
+        const headers = new Headers(options.init?.headers);
+        headers.set('Accept', 'text/event-stream');
+
+        if (state.lastEventId) {
+            headers.set('Last-Event-ID', state.lastEventId);
+        }
+
+        try {
+            response = await client.get(path, options.query, {
+                timeout: 0,
+                ...options.init,
+                headers,
+                signal,
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        if (response) {
+            // the server asks to stop
+            if (response.status === 204) return;
+
+            if (!response.ok) throw await readProblem(response, diagnostics);
+
+            attempt = 0;
+
+            try {
+                if (response.body) {
+                    for await (const event of readServerSentEvents(
+                        response.body,
+                        state,
+                    )) {
+                        if (events && !events.includes(event.event)) continue;
+
+                        yield {
+                            ...event,
+                            data: parseData(event.data),
+                        } as TypedEvent<Events>;
+                    }
+                }
+            } catch (e) {
+                error = e;
+            }
+        }
+
+        if (signal.aborted) return;
+
+        const problem = networkErrorProblem(error);
+
+        if (++attempt > maxRetries) throw problem;
+
+        const delay = state.retry ?? options.retryDelay ?? 3000;
+
+        diagnostics.emit({
+            type: 'request:retry',
+            url: path,
+            attempt,
+            delay,
+            problem,
+        });
+
+        await wait(delay, signal);
+    }
+}
+
+/**
+ * Parses the event data as json, or returns it if it isn't.
+ *
+ * @param {string} data
+ * @return {unknown}
+ */
+function parseData(data: string): unknown {
+    try {
+        return JSON.parse(data);
+    } catch (e) {
+        return data;
+    }
+}
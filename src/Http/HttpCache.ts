@@ -0,0 +1,310 @@
+import IHttpCacheOptions from './IHttpCacheOptions';
+import IHttpClient from './IHttpClient';
+import IProblemJson from './IProblemJson';
+import IProcessOptions from './IProcessOptions';
+import TypedPromise from '../TypedPromise';
+import processPromise from './ProcessPromise';
+import { encodeQuery } from './QueryString';
+
+interface CacheEntry {
+    response: Response; // never consumed, each caller gets a clone
+    etag: string | null;
+    expires: number;
+}
+
+interface Flight {
+    promise: Promise<Response>;
+    controller: AbortController;
+    waiting: number;
+    invalidated: boolean;
+}
+
+/**
+ * Caching layer over the GET requests of a client.
+ *
+ * Identical requests in flight share the same fetch, each caller gets its
+ * own TypedPromise and cancelling it only aborts the fetch if no other
+ * caller is waiting for it. Successful responses are reused for `ttl`
+ * milliseconds, then they are revalidated with `If-None-Match` if they have
+ * an ETag, a 304 response renews the cached one. During the
+ * `staleWhileRevalidate` window the stale response is used while it's
+ * revalidated in the background.
+ *
+ * @example
+ * const cache = new HttpCache(client, { ttl: 30_000 });
+ *
+ * cache.get<User, IProblemJson>('/users/1').ok(user => ...);
+ * cache.invalidatePrefix('/users');
+ *
+ * @export
+ * @class HttpCache
+ * @typedef {HttpCache}
+ */
+export default class HttpCache {
+    private entries = new Map<string, CacheEntry>();
+
+    private flights = new Map<string, Flight>();
+
+    /**
+     * @param {IHttpClient} client
+     * @param {IHttpCacheOptions} [options={}]
+     */
+    constructor(
+        private client: IHttpClient,
+        private options: IHttpCacheOptions = {},
+    ) {}
+
+    /**
+     * Makes the GET request, or reuses the cached or in flight one, and
+     * processes it like `processPromise`.
+     *
+     * @template T
+     * @template Problem
+     * @param {string} path
+     * @param {object} [query={}] query parameters
+     * @param {IProcessOptions} [options={}]
+     * @return {TypedPromise<T, Problem>}
+     */
+    get<T, Problem extends IProblemJson>(
+        path: string,
+        query: object = {},
+        options: IProcessOptions = {},
+    ): TypedPromise<T, Problem> {
+        const key = HttpCache.key(path, query);
+
+        return processPromise<T, Problem>(
+            signal => this.load(key, path, query, signal),
+            options,
+        );
+    }
+
+    /**
+     * Removes the cached response of the request. The request in flight, if
+     * any, is not cached and the next call makes a new one.
+     *
+     * @param {string} path
+     * @param {object} [query={}]
+     */
+    invalidate(path: string, query: object = {}): void {
+        this.remove(key => key === HttpCache.key(path, query));
+    }
+
+    /**
+     * Removes the cached responses of the requests whose path and query
+     * start with `prefix`.
+     *
+     * @param {string} prefix
+     */
+    invalidatePrefix(prefix: string): void {
+        this.remove(key => key.startsWith(prefix));
+    }
+
+    /**
+     * Removes all the cached responses.
+     */
+    clear(): void {
+        this.remove(() => true);
+    }
+
+    /**
+     * Key of the request in the cache, the path and the encoded query.
+     *
+     * @static
+     * @param {string} path
+     * @param {object} query
+     * @return {string}
+     */
+    static key(path: string, query: object): string {
+        const queryString = encodeQuery(query);
+
+        return queryString ? path + '?' + queryString : path;
+    }
+
+    /**
+     * Gets the response of a caller.
+     *
+     * @private
+     * @param {string} key
+     * @param {string} path
+     * @param {object} query
+     * @param {AbortSignal} signal the caller signal
+     * @return {Promise<Response>}
+     */
+    private load(
+        key: string,
+        path: string,
+        query: object,
+        signal: AbortSignal,
+    ): Promise<Response> {
+        const entry = this.entries.get(key);
+        const now = Date.now();
+
+        if (entry && now < entry.expires) {
+            return Promise.resolve(entry.response.clone());
+        }
+
+        if (
+            entry &&
+            now < entry.expires + (this.options.staleWhileRevalidate || 0)
+        ) {
+            // the background revalidation is never cancelled
+            this.join(this.fly(key, path, query)).catch(() => {});
+
+            return Promise.resolve(entry.response.clone());
+        }
+
+        return this.join(this.fly(key, path, query), signal);
+    }
+
+    /**
+     * Returns the request in flight, making it if there is none.
+     *
+     * @private
+     * @param {string} key
+     * @param {string} path
+     * @param {object} query
+     * @return {Flight}
+     */
+    private fly(key: string, path: string, query: object): Flight {
+        const existing = this.flights.get(key);
+        if (existing) return existing;
+
+        const entry = this.entries.get(key);
+        const controller = new AbortController();
+
+        const flight: Flight = {
+            controller,
+            waiting: 0,
+            invalidated: false,
+            promise: this.client
+                .get(path, query, {
+                    signal: controller.signal,
+                    headers: entry?.etag
+                        ? { 'If-None-Match': entry.etag }
+                        : undefined,
+                })
+                .then(response => this.store(key, flight, entry, response))
+                .finally(() => {
+                    if (this.flights.get(key) === flight) {
+                        this.flights.delete(key);
+                    }
+                }),
+        };
+
+        this.flights.set(key, flight);
+
+        return flight;
+    }
+
+    /**
+     * Caches the successful response, or renews the cached one if the
+     * server responded 304.
+     *
+     * @private
+     * @param {string} key
+     * @param {Flight} flight
+     * @param {CacheEntry | undefined} entry the entry being revalidated
+     * @param {Response} response
+     * @return {Response} the response to give to the callers
+     */
+    private store(
+        key: string,
+        flight: Flight,
+        entry: CacheEntry | undefined,
+        response: Response,
+    ): Response {
+        const expires = Date.now() + (this.options.ttl || 0);
+
+        if (response.status === 304 && entry) {
+            if (!flight.invalidated) {
+                this.entries.set(key, { ...entry, expires });
+            }
+
+            return entry.response;
+        }
+
+        const etag = response.headers.get('ETag');
+
+        if (
+            response.ok &&
+            !flight.invalidated &&
+            (this.options.ttl || this.options.staleWhileRevalidate || etag)
+        ) {
+            this.entries.set(key, { response, etag, expires });
+        }
+
+        return response;
+    }
+
+    /**
+     * Waits for the request in flight, aborting it if the signal is aborted
+     * and there is no one else waiting.
+     *
+     * @private
+     * @param {Flight} flight
+     * @param {AbortSignal} [signal]
+     * @return {Promise<Response>} a clone of the response
+     */
+    private join(flight: Flight, signal?: AbortSignal): Promise<Response> {
+        flight.waiting++;
+
+        return new Promise<Response>((resolve, reject) => {
+            let done = false;
+
+            const onAbort = () => {
+                if (done) return;
+                done = true;
+
+                // nobody else waits for it, the next call makes a new one
+                if (--flight.waiting === 0) {
+                    this.flights.forEach((f, key) => {
+                        if (f === flight) this.flights.delete(key);
+                    });
+                    flight.controller.abort(signal?.reason);
+                }
+
+                reject(signal?.reason);
+            };
+
+            if (signal?.aborted) return onAbort();
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            flight.promise.then(
+                response => {
+                    if (done) return;
+                    done = true;
+                    flight.waiting--;
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(response.clone());
+                },
+                error => {
+                    if (done) return;
+                    done = true;
+                    flight.waiting--;
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            );
+        });
+    }
+
+    /**
+     * Removes the cached responses and the requests in flight of the keys.
+     * The removed requests in flight are not cached when they finish.
+     *
+     * @private
+     * @param {(key: string) => boolean} predicate
+     */
+    private remove(predicate: (key: string) => boolean): void {
+        this.entries.forEach((_, key) => {
+            if (predicate(key)) this.entries.delete(key);
+        });
+
+        this.flights.forEach((flight, key) => {
+            if (predicate(key)) {
+                flight.invalidated = true;
+                this.flights.delete(key);
+            }
+        });
+    }
+}
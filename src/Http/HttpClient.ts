@@ -1,4 +1,41 @@
 import IHttpClient from './IHttpClient';
+import IBodySerializer from './IBodySerializer';
+import IHttpClientOptions from './IHttpClientOptions';
+import IHttpRequest from './IHttpRequest';
+import { RequestInterceptor, ResponseInterceptor } from './Interceptors';
+import IRequestOptions from './IRequestOptions';
+import IRequestParams from './IRequestParams';
+import TimeoutError from '../TimeoutError';
+import { isRetryableMethod, retryRequest } from './Retry';
+import { defaultSerializers, detectBodyType } from './BodySerializers';
+import { encodeQuery } from './QueryString';
+import { diagnostics as sharedDiagnostics } from './Diagnostics';
+import { trackUpload, withBody } from './Progress';
+
+// keys of RequestInit and IRequestOptions, to tell the options apart from
+// the query parameters of the deprecated `put` form
+const REQUEST_OPTION_KEYS = new Set([
+    'body',
+    'cache',
+    'credentials',
+    'headers',
+    'integrity',
+    'keepalive',
+    'method',
+    'mode',
+    'priority',
+    'redirect',
+    'referrer',
+    'referrerPolicy',
+    'signal',
+    'window',
+    'duplex',
+    'query',
+    'bodyType',
+    'timeout',
+    'retry',
+    'onUploadProgress',
+]);
 
 /**
  * Simple http client to make it easier to
@@ -11,7 +48,13 @@ import IHttpClient from './IHttpClient';
  * https://developer.mozilla.org/en-US/docs/Web/API/Request/Request#syntax
  *
  * Each request returns a Promise that resolves to the Response
- * to that request.
+ * to that request. If the response doesn't arrive before the timeout
+ * the request is aborted and the promise rejects with a TimeoutError.
+ * With a retry policy, the retryable failures are requested again and
+ * the promise resolves to the response of the last attempt.
+ *
+ * Request interceptors can modify each request before it's sent, and response
+ * interceptors can modify the response before it's returned.
  *
  * @export
  * @class HttpClient
@@ -27,8 +70,84 @@ export default class HttpClient implements IHttpClient {
      */
     private baseUrl: string;
 
-    constructor(pBaseSiteUrl: string = '') {
+    private clientOptions: IHttpClientOptions;
+
+    private requestInterceptors: RequestInterceptor[] = [];
+
+    private responseInterceptors: ResponseInterceptor[] = [];
+
+    private serializers: Record<string, IBodySerializer> = {
+        ...defaultSerializers,
+    };
+
+    constructor(pBaseSiteUrl: string = '', options: IHttpClientOptions = {}) {
         this.baseUrl = pBaseSiteUrl;
+        this.clientOptions = options;
+    }
+
+    /**
+     * Registers a serializer for the requests made with `bodyType: type`,
+     * it replaces the built-in one if the type is the same.
+     *
+     * @public
+     * @param {string} type
+     * @param {IBodySerializer} serializer
+     */
+    public registerSerializer(type: string, serializer: IBodySerializer) {
+        this.serializers[type] = serializer;
+    }
+
+    /**
+     * Adds an interceptor that is called before each request is sent.
+     *
+     * @public
+     * @param {RequestInterceptor} interceptor
+     * @return {() => void} removes the interceptor
+     */
+    public addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+        this.requestInterceptors.push(interceptor);
+
+        return () => {
+            this.requestInterceptors = this.requestInterceptors.filter(
+                i => i !== interceptor,
+            );
+        };
+    }
+
+    /**
+     * Adds an interceptor that is called with each response.
+     *
+     * @public
+     * @param {ResponseInterceptor} interceptor
+     * @return {() => void} removes the interceptor
+     */
+    public addResponseInterceptor(
+        interceptor: ResponseInterceptor,
+    ): () => void {
+        this.responseInterceptors.push(interceptor);
+
+        return () => {
+            this.responseInterceptors = this.responseInterceptors.filter(
+                i => i !== interceptor,
+            );
+        };
+    }
+
+    /**
+     * Makes a http get request
+     *
+     * @public
+     * @param {string} path
+     * @param {object} [query={}] query parameters
+     * @param {IRequestOptions} [init={}] optional request parameters
+     * @return {Promise<Response>}
+     */
+    public get(
+        path: string,
+        query: object = {},
+        init: IRequestOptions = {},
+    ): Promise<Response> {
+        return this.request({ method: 'GET', path, query, init });
     }
 
     /**
@@ -36,109 +155,561 @@ export default class HttpClient implements IHttpClient {
      *
      * @public
      * @param {string} path
-     * @param {object} body
-     * @param {RequestInit} [init={}] optional request parameters
+     * @param {unknown} [body] request body
+     * @param {IRequestOptions} [init={}] optional request parameters, the query
+     * parameters are given in `init.query`
      * @return {Promise<Response>}
      */
     public post(
         path: string,
-        body: object,
-        init: RequestInit = {},
+        body?: unknown,
+        init: IRequestOptions = {},
     ): Promise<Response> {
-        // merge body and args into a single object
-        const reqParams = Object.assign(
-            {
-                body: JSON.stringify(body),
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-            },
-            init,
-        );
+        return this.request({ method: 'POST', path, body, init });
+    }
 
-        return fetch(this.baseUrl + path, reqParams);
+    /**
+     * Makes a http put request
+     *
+     * The previous form, with the query parameters as the third argument
+     * followed by `init`, is still accepted but deprecated. The third
+     * argument is taken as the query if it has no request option.
+     *
+     * @public
+     * @param {string} path
+     * @param {unknown} [body] request body
+     * @param {IRequestOptions} [init={}] optional request parameters, the query
+     * parameters are given in `init.query`
+     * @return {Promise<Response>}
+     */
+    public put(
+        path: string,
+        body?: unknown,
+        init?: IRequestOptions,
+    ): Promise<Response>;
+    /** @deprecated give the query parameters in `init.query` */
+    public put(
+        path: string,
+        body: unknown,
+        query: object,
+        init?: IRequestOptions,
+    ): Promise<Response>;
+    public put(
+        path: string,
+        body?: unknown,
+        init: IRequestOptions | object = {},
+        legacyInit?: IRequestOptions,
+    ): Promise<Response> {
+        if (legacyInit || isLegacyPutQuery(init)) {
+            return this.request({
+                method: 'PUT',
+                path,
+                query: init,
+                body,
+                init: legacyInit,
+            });
+        }
+
+        return this.request({ method: 'PUT', path, body, init });
     }
 
     /**
-     * Makes a http get request
+     * Makes a http patch request
      *
      * @public
      * @param {string} path
-     * @param {object} [parameters={}] query parameters
-     * @param {RequestInit} [init={}] optional request parameters
+     * @param {unknown} [body] request body
+     * @param {IRequestOptions} [init={}] optional request parameters, the query
+     * parameters are given in `init.query`
      * @return {Promise<Response>}
      */
-    public get(
+    public patch(
         path: string,
-        parameters: object = {},
-        init: RequestInit = {},
+        body?: unknown,
+        init: IRequestOptions = {},
     ): Promise<Response> {
-        let url: string = this.baseUrl + path;
-        url += '?' + this.encodeObjectToQueryParams(parameters);
+        return this.request({ method: 'PATCH', path, body, init });
+    }
 
-        return fetch(url, init);
+    /**
+     * Makes a http delete request
+     *
+     * The previous form, `delete(path, { query, init })`, is still accepted
+     * but deprecated. It's detected when there is no `init` and the second
+     * argument only has `query` and `init` objects.
+     *
+     * @public
+     * @param {string} path
+     * @param {object} [query={}] query parameters
+     * @param {IRequestOptions} [init={}] optional request parameters
+     * @return {Promise<Response>}
+     */
+    public delete(
+        path: string,
+        query?: object,
+        init?: IRequestOptions,
+    ): Promise<Response>;
+    /** @deprecated give the query and init as separate arguments */
+    public delete(
+        path: string,
+        options: { query?: object; init?: IRequestOptions },
+    ): Promise<Response>;
+    public delete(
+        path: string,
+        query: object = {},
+        init?: IRequestOptions,
+    ): Promise<Response> {
+        if (!init && isLegacyDeleteOptions(query)) {
+            return this.request({
+                method: 'DELETE',
+                path,
+                query: query.query,
+                init: query.init,
+            });
+        }
+
+        return this.request({ method: 'DELETE', path, query, init });
     }
 
-    public put(
+    /**
+     * Makes a http head request
+     *
+     * @public
+     * @param {string} path
+     * @param {object} [query={}] query parameters
+     * @param {IRequestOptions} [init={}] optional request parameters
+     * @return {Promise<Response>}
+     */
+    public head(
         path: string,
-        body: object = {},
         query: object = {},
-        init: RequestInit = {},
+        init: IRequestOptions = {},
     ): Promise<Response> {
-        let url: string = this.baseUrl + path;
+        return this.request({ method: 'HEAD', path, query, init });
+    }
 
-        if (Object.keys(query).length > 0) {
-            url += '?' + this.encodeObjectToQueryParams(query);
+    /**
+     * Makes a http options request
+     *
+     * @public
+     * @param {string} path
+     * @param {object} [query={}] query parameters
+     * @param {IRequestOptions} [init={}] optional request parameters
+     * @return {Promise<Response>}
+     */
+    public options(
+        path: string,
+        query: object = {},
+        init: IRequestOptions = {},
+    ): Promise<Response> {
+        return this.request({ method: 'OPTIONS', path, query, init });
+    }
+
+    /**
+     * Makes a http request, every verb method calls this one.
+     *
+     * The body is serialized by the serializer of `init.bodyType`, detected from
+     * the body if not set: FormData is sent as multipart, URLSearchParams as url
+     * encoded, Blob, ArrayBuffer and streams as binary, strings as text and
+     * everything else as json. The query parameters and headers are merged over
+     * the ones in `init`.
+     *
+     * @public
+     * @param {IRequestParams} params
+     * @return {Promise<Response>}
+     */
+    public request({
+        method,
+        path,
+        query,
+        body,
+        headers,
+        init = {},
+    }: IRequestParams): Promise<Response> {
+        const {
+            query: initQuery,
+            headers: initHeaders,
+            bodyType = detectBodyType(body),
+            ...rest
+        } = init;
+
+        const mergedHeaders = new Headers(initHeaders);
+        new Headers(headers).forEach((value, name) =>
+            mergedHeaders.set(name, value),
+        );
+
+        const reqParams: IRequestOptions = { ...rest, method };
+
+        if (body !== undefined) {
+            const serializer = this.serializers[bodyType];
+
+            if (!serializer) {
+                return Promise.reject(
+                    new Error(`There is no serializer for "${bodyType}"`),
+                );
+            }
+
+            const serialized = serializer.serialize(body);
+            reqParams.body = serialized.body;
+
+            if (serialized.contentType && !mergedHeaders.has('Content-Type')) {
+                mergedHeaders.set('Content-Type', serialized.contentType);
+            }
+
+            // node fetch needs it to send a stream
+            if (detectBodyType(serialized.body) === 'stream') {
+                (reqParams as any).duplex = 'half';
+            }
         }
 
-        const reqParams = Object.assign(
-            {
-                body: JSON.stringify(body),
-                method: 'PUT',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-            },
-            init,
+        reqParams.headers = mergedHeaders;
+
+        return this.dispatch(
+            this.buildUrl(path, { ...initQuery, ...query }),
+            reqParams,
         );
+    }
 
-        return fetch(url, reqParams);
+    /**
+     * Joins the base url, the path and the query parameters.
+     *
+     * @protected
+     * @param {string} path
+     * @param {object} query
+     * @return {string}
+     */
+    protected buildUrl(path: string, query: object): string {
+        const url: string = this.baseUrl + path;
+        const queryString = this.encodeObjectToQueryParams(query);
+
+        // skipped parameters might leave it empty
+        return queryString ? url + '?' + queryString : url;
     }
 
-    public delete(
-        path: string,
-        { query, init }: { query?: object; init?: RequestInit } = {},
+    /**
+     * Sends the request through the interceptors.
+     *
+     * @protected
+     * @param {string} url
+     * @param {IRequestOptions} init
+     * @return {Promise<Response>}
+     */
+    protected async dispatch(
+        url: string,
+        init: IRequestOptions,
     ): Promise<Response> {
-        let url: string = this.baseUrl + path;
+        const { method = 'GET', headers, body, ...rest } = init;
+
+        // the interceptors added while the request is in flight are not used
+        const interceptors = this.responseInterceptors.slice();
+
+        const sent = await this.interceptRequest({
+            method,
+            url,
+            headers: new Headers(headers),
+            body,
+            init: rest,
+        });
+
+        const replay = async (replayed: IHttpRequest = sent.request) =>
+            (await this.interceptRequest(replayed)).response;
+
+        let response = sent.response;
 
-        if (query && Object.keys(query).length > 0) {
-            url += '?' + this.encodeObjectToQueryParams(query);
+        for (const interceptor of interceptors) {
+            response = await interceptor(response, sent.request, replay);
         }
 
-        const reqParams = Object.assign(
-            {
-                method: 'DELETE',
+        return response;
+    }
+
+    /**
+     * Calls the request interceptors and sends the resulting request,
+     * unless one of them returns a response.
+     *
+     * @private
+     * @param {IHttpRequest} request
+     * @return {Promise<{ request: IHttpRequest; response: Response }>} the
+     * request returned by the last interceptor and its response
+     */
+    private async interceptRequest(
+        request: IHttpRequest,
+    ): Promise<{ request: IHttpRequest; response: Response }> {
+        for (const interceptor of this.requestInterceptors) {
+            const result = await interceptor(request);
+
+            if (result instanceof Response) {
+                return { request, response: result };
+            }
+            if (result) request = result;
+        }
+
+        const response = await this.send(request.url, {
+            ...request.init,
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+        });
+
+        return { request, response };
+    }
+
+    /**
+     * Calls fetch, retrying the request if the method is retried by
+     * the request or client retry policy. A `ReadableStream` body can only
+     * be sent once, so those requests aren't retried. Emits the `request:start` and
+     * `request:end` diagnostic events.
+     *
+     * @protected
+     * @param {string} url
+     * @param {IRequestOptions} init
+     * @return {Promise<Response>}
+     */
+    protected async send(
+        url: string,
+        init: IRequestOptions,
+    ): Promise<Response> {
+        const {
+            timeout = this.clientOptions.timeout,
+            retry,
+            onUploadProgress,
+            ...requestInit
+        } = init;
+        const method = requestInit.method || 'GET';
+        const diagnostics = this.clientOptions.diagnostics || sharedDiagnostics;
+
+        // each attempt sends a new stream of the body
+        const attempt = async (signal?: AbortSignal) =>
+            this.fetchWithTimeout(
+                url,
+                {
+                    ...(onUploadProgress
+                        ? await trackUpload(requestInit, onUploadProgress)
+                        : requestInit),
+                    signal,
+                },
+                timeout,
+            );
+
+        const policy =
+            retry === false ||
+            (!retry && !this.clientOptions.retry) ||
+            requestInit.body instanceof ReadableStream
+                ? undefined
+                : { ...this.clientOptions.retry, ...retry };
+
+        const start = Date.now();
+        diagnostics.emit({ type: 'request:start', method, url });
+
+        try {
+            const response =
+                !policy || !isRetryableMethod(policy, method)
+                    ? await attempt(requestInit.signal || undefined)
+                    : await retryRequest(
+                          attempt,
+                          policy,
+                          requestInit.signal || new AbortController().signal,
+                          diagnostics,
+                          url,
+                      );
+
+            diagnostics.emit({
+                type: 'request:end',
+                method,
+                url,
+                status: response.status,
+                durationMs: Date.now() - start,
+            });
+
+            return response;
+        } catch (error) {
+            diagnostics.emit({
+                type: 'request:end',
+                method,
+                url,
+                status: 0,
+                durationMs: Date.now() - start,
+                error,
+            });
+
+            throw error;
+        }
+    }
+
+    /**
+     * Calls fetch, aborting the request if the response doesn't
+     * arrive before the timeout. The deadline also covers the body, reading
+     * it fails with the TimeoutError if it isn't read completely in time.
+     *
+     * @protected
+     * @param {string} url
+     * @param {RequestInit} requestInit
+     * @param {number} [timeout] milliseconds, undefined or 0 disables it
+     * @return {Promise<Response>}
+     */
+    protected fetchWithTimeout(
+        url: string,
+        requestInit: RequestInit,
+        timeout?: number,
+    ): Promise<Response> {
+        if (!timeout) return this.fetch(url, requestInit);
+
+        const controller = new AbortController();
+        const error = new TimeoutError(timeout);
+        let timedOut = false;
+
+        // keep the caller signal working
+        const signal = requestInit.signal;
+        if (signal) {
+            if (signal.aborted) controller.abort(signal.reason);
+            else
+                signal.addEventListener(
+                    'abort',
+                    () => controller.abort(signal.reason),
+                    { once: true },
+                );
+        }
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort(error);
+        }, timeout);
+
+        return this.fetch(url, {
+            ...requestInit,
+            signal: controller.signal,
+        }).then(
+            response =>
+                bodyUntilAborted(response, controller.signal, () =>
+                    clearTimeout(timer),
+                ),
+            e => {
+                clearTimeout(timer);
+                throw timedOut ? error : e;
             },
-            init,
         );
+    }
 
-        return fetch(url, reqParams);
+    /**
+     * Sends the request with the Fetch API, override it to use another
+     * implementation.
+     *
+     * @protected
+     * @param {string} url
+     * @param {RequestInit} requestInit
+     * @return {Promise<Response>}
+     */
+    protected fetch(url: string, requestInit: RequestInit): Promise<Response> {
+        return fetch(url, requestInit);
     }
 
     /**
      * Converts an object (key-value) to a string
      * in the format
      * "key_1=<value_1>&...&key_n=<value_n>"
-     * where each value is encoded.
+     * where each key and value is encoded, following
+     * the client query options.
      *
      * @protected
      * @param {object} params
      * @return {string} encoded string
      */
     protected encodeObjectToQueryParams(params: object): string {
-        return Object.entries(params)
-            .map(kvp => [kvp[0], encodeURIComponent(kvp[1])].join('='))
-            .join('&');
+        return encodeQuery(params, this.clientOptions.query);
+    }
+}
+
+/**
+ * Returns the response with a body that fails with the reason of `signal`
+ * if it's aborted before the body is read, even if `fetch` ignores the
+ * signal once the response arrived.
+ *
+ * @param {Response} response
+ * @param {AbortSignal} signal
+ * @param {() => void} onEnd called once the body is read, cancelled or failed
+ * @return {Response}
+ */
+function bodyUntilAborted(
+    response: Response,
+    signal: AbortSignal,
+    onEnd: () => void,
+): Response {
+    if (!response.body) {
+        onEnd();
+        return response;
     }
+
+    const reader = response.body.getReader();
+
+    // a pending read ends as done, the abort is checked after it
+    const onAbort = () => reader.cancel(signal.reason).catch(() => {});
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    const end = () => {
+        signal.removeEventListener('abort', onAbort);
+        onEnd();
+    };
+
+    return withBody(
+        response,
+        new ReadableStream<Uint8Array>({
+            async pull(controller) {
+                try {
+                    const { done, value } = await reader.read();
+
+                    if (signal.aborted) throw signal.reason;
+
+                    if (done) {
+                        end();
+                        controller.close();
+                    } else {
+                        controller.enqueue(value);
+                    }
+                } catch (e) {
+                    end();
+                    controller.error(e);
+                }
+            },
+            cancel(reason) {
+                end();
+                return reader.cancel(reason);
+            },
+        }),
+    );
+}
+
+/**
+ * Checks if the third argument of `put` is the deprecated query
+ * parameters instead of the request options, it has none of their keys.
+ *
+ * @param {object} value
+ * @return {boolean}
+ */
+function isLegacyPutQuery(value: object): boolean {
+    const keys = Object.keys(value);
+
+    return keys.length > 0 && !keys.some(key => REQUEST_OPTION_KEYS.has(key));
+}
+
+/**
+ * Checks if the second argument of `delete` is the deprecated
+ * `{ query, init }` object instead of the query parameters.
+ *
+ * @param {object} value
+ * @return {boolean}
+ */
+function isLegacyDeleteOptions(
+    value: object,
+): value is { query?: object; init?: IRequestOptions } {
+    const entries = Object.entries(value);
+
+    return (
+        entries.length > 0 &&
+        entries.every(
+            ([key, member]) =>
+                (key === 'query' || key === 'init') &&
+                (member === undefined ||
+                    (typeof member === 'object' && member !== null)),
+        )
+    );
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+/* eslint-disable semi */
+
+/**
+ * Converts a request body into something fetch can send.
+ */
+export default interface IBodySerializer {
+    // Returns the serialized body and its content type, used unless the
+    // request sets one. Without content type fetch picks it, e.g. the
+    // multipart boundary.
+    serialize(body: any): { body: BodyInit; contentType?: string };
+}
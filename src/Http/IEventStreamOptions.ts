@@ -0,0 +1,30 @@
+/* eslint-disable semi */
+import Diagnostics from './Diagnostics';
+import IRequestOptions from './IRequestOptions';
+
+/**
+ * Options of `EventStream`.
+ */
+export default interface IEventStreamOptions {
+    // Query parameters of the request.
+    query?: object;
+
+    // Options of each request, like the headers.
+    init?: Omit<IRequestOptions, 'signal'>;
+
+    // Id of the last event received, sent as Last-Event-ID to resume
+    // the stream after it.
+    lastEventId?: string;
+
+    // Milliseconds to wait before reconnecting, 3000 by default.
+    // The server can change it with the retry field.
+    retryDelay?: number;
+
+    // Reconnections in a row without a successful response before
+    // failing, unlimited by default.
+    maxRetries?: number;
+
+    // Where the diagnostic events are emitted, the shared
+    // `diagnostics` by default.
+    diagnostics?: Diagnostics;
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+/* eslint-disable semi */
+
+/**
+ * Options of `HttpCache`.
+ */
+export default interface IHttpCacheOptions {
+    // Milliseconds the responses are used without asking the server.
+    // 0, the default, only deduplicates the requests in flight and
+    // revalidates the responses with an ETag.
+    ttl?: number;
+
+    // Milliseconds after the ttl in which the stale response is used
+    // while it's revalidated in the background.
+    staleWhileRevalidate?: number;
+}
\ No newline at end of file
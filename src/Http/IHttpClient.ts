@@ -1,3 +1,7 @@
+import IRequestOptions from './IRequestOptions';
+import IRequestParams from './IRequestParams';
+import { RequestInterceptor, ResponseInterceptor } from './Interceptors';
+
 /**
  * Simple http client to make it easier to make request.
  *
@@ -17,82 +21,153 @@
  */
 export default abstract class IHttpClient {
     /**
-     * Makes a http post request
+     * GET verb
      *
      * @abstract
      * @param {string} path
-     * @param {object} body
-     * @param {RequestInit} [init={}] optional request parameters
+     * @param {object} [query] query parameters
+     * @param {IRequestOptions} [init] optional request parameters
      * @returns {Promise<Response>}
      */
-    abstract post(
+    abstract get(
         path: string,
-        body: object,
-        init: RequestInit,
+        query?: object,
+        init?: IRequestOptions,
     ): Promise<Response>;
 
     /**
-     * Same function as above given for convenience
+     * POST verb
      *
      * @abstract
      * @param {string} path
-     * @param {object} body
+     * @param {object} [body] request body
+     * @param {IRequestOptions} [init] optional request parameters, with the
+     * query parameters in `init.query`
      * @returns {Promise<Response>}
      */
-    abstract post(path: string, body: object): Promise<Response>;
+    abstract post(
+        path: string,
+        body?: unknown,
+        init?: IRequestOptions,
+    ): Promise<Response>;
 
     /**
-     * Makes a http get request
+     * PUT verb
      *
      * @abstract
-     * @public
      * @param {string} path
-     * @param {object} [parameters={}] query parameters
-     * @param {RequestInit} [init={}] optinal request parameters
-     * @return {Promise<Response>}
+     * @param {object} [body] request body
+     * @param {IRequestOptions} [init] optional request parameters, with the
+     * query parameters in `init.query`
+     * @returns {Promise<Response>}
      */
-    abstract get(
+    abstract put(
+        path: string,
+        body?: unknown,
+        init?: IRequestOptions,
+    ): Promise<Response>;
+
+    /** @deprecated give the query parameters in `init.query` */
+    abstract put(
         path: string,
-        parameters: object,
-        init: RequestInit,
+        body: unknown,
+        query: object,
+        init: IRequestOptions,
     ): Promise<Response>;
 
     /**
-     * Same function as above given for convenience
+     * PATCH verb
      *
      * @abstract
      * @param {string} path
-     * @param {object} parameters
+     * @param {object} [body] request body
+     * @param {IRequestOptions} [init] optional request parameters, with the
+     * query parameters in `init.query`
      * @returns {Promise<Response>}
      */
-    abstract get(path: string, parameters: object): Promise<Response>;
+    abstract patch(
+        path: string,
+        body?: unknown,
+        init?: IRequestOptions,
+    ): Promise<Response>;
 
     /**
-     * PUT verb
+     * DELETE verb
      *
      * @abstract
      * @param {string} path
-     * @param {object} body request body
-     * @param {object} query request parameters/query
+     * @param {object} [query] query parameters
+     * @param {IRequestOptions} [init] optional request parameters
      * @returns {Promise<Response>}
      */
-    abstract put(path: string, body: object, query?: object): Promise<Response>;
+    abstract delete(
+        path: string,
+        query?: object,
+        init?: IRequestOptions,
+    ): Promise<Response>;
+
+    /** @deprecated give the query and init as separate arguments */
+    abstract delete(
+        path: string,
+        options: { query?: object; init?: IRequestOptions },
+    ): Promise<Response>;
 
     /**
-     * DELETE verb
+     * HEAD verb
      *
      * @abstract
      * @param {string} path
-     * @param {object} query request parameters/query
+     * @param {object} [query] query parameters
+     * @param {IRequestOptions} [init] optional request parameters
      * @returns {Promise<Response>}
      */
-    abstract delete(
+    abstract head(
         path: string,
-        extra: { query?: object; init?: RequestInit },
+        query?: object,
+        init?: IRequestOptions,
     ): Promise<Response>;
 
-    abstract delete(
+    /**
+     * OPTIONS verb
+     *
+     * @abstract
+     * @param {string} path
+     * @param {object} [query] query parameters
+     * @param {IRequestOptions} [init] optional request parameters
+     * @returns {Promise<Response>}
+     */
+    abstract options(
         path: string,
-        extra?: { query?: object; init?: RequestInit },
+        query?: object,
+        init?: IRequestOptions,
     ): Promise<Response>;
+
+    /**
+     * Makes a request with any method, the verbs are shortcuts to this one.
+     *
+     * @abstract
+     * @param {IRequestParams} params
+     * @returns {Promise<Response>}
+     */
+    abstract request(params: IRequestParams): Promise<Response>;
+
+    /**
+     * Adds an interceptor that is called before each request is sent.
+     *
+     * @abstract
+     * @param {RequestInterceptor} interceptor
+     * @returns {() => void} removes the interceptor
+     */
+    abstract addRequestInterceptor(interceptor: RequestInterceptor): () => void;
+
+    /**
+     * Adds an interceptor that is called with each response.
+     *
+     * @abstract
+     * @param {ResponseInterceptor} interceptor
+     * @returns {() => void} removes the interceptor
+     */
+    abstract addResponseInterceptor(
+        interceptor: ResponseInterceptor,
+    ): () => void;
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+/* eslint-disable semi */
+import Diagnostics from './Diagnostics';
+import IQueryOptions from './IQueryOptions';
+import IRetryPolicy from './IRetryPolicy';
+
+/**
+ * Options applied to every request made by the HttpClient.
+ */
+export default interface IHttpClientOptions {
+    // Milliseconds to wait for the response, body included, before
+    // aborting the request. Undefined or 0 disables it.
+    timeout?: number;
+
+    // Retries the failed requests made with the policy methods.
+    retry?: IRetryPolicy;
+
+    // How the query parameters are encoded.
+    query?: IQueryOptions;
+
+    // Where the diagnostic events are emitted, the shared
+    // `diagnostics` by default.
+    diagnostics?: Diagnostics;
+}
@@ -0,0 +1,14 @@
+/* eslint-disable semi */
+import IRequestOptions from './IRequestOptions';
+
+/**
+ * Request about to be sent by the HttpClient, given to the interceptors.
+ */
+export default interface IHttpRequest {
+    method: string;
+    url: string; // absolute url, including the query
+    headers: Headers;
+    body?: BodyInit | null;
+    // the rest of the request options (signal, timeout, retry, ...)
+    init: IRequestOptions;
+}
@@ -0,0 +1,11 @@
+/* eslint-disable semi */
+
+/**
+ * Logger of the diagnostic messages, `console` implements it.
+ */
+export default interface ILogger {
+    debug(message: string, ...details: unknown[]): void;
+    info(message: string, ...details: unknown[]): void;
+    warn(message: string, ...details: unknown[]): void;
+    error(message: string, ...details: unknown[]): void;
+}
\ No newline at end of file
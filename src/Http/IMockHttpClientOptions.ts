@@ -0,0 +1,10 @@
+/* eslint-disable semi */
+import IHttpClientOptions from './IHttpClientOptions';
+
+/**
+ * Options of `MockHttpClient`.
+ */
+export default interface IMockHttpClientOptions extends IHttpClientOptions {
+    // Milliseconds to wait before each reply, routes can override it.
+    latency?: number;
+}
\ No newline at end of file
@@ -1,5 +1,5 @@
 /* eslint-disable semi */
-// ref: https://datatracker.ietf.org/doc/html/rfc7807#section-3
+// ref: https://datatracker.ietf.org/doc/html/rfc9457#section-3
 
 export default interface IProblemJson {
     // Type is a URI reference that identifies the problem type, if omitted
@@ -9,5 +9,9 @@ export default interface IProblemJson {
     title?: string; // summary of the problem type
     detail?: string; // explanation specific to this occurrence
     status: number; // The HTTP status code. -1 if couldn't make the request
+    instance?: string; // URI reference that identifies this occurrence
     invalidParams?: { [name: string]: { code: string; reason: string } };
+    // Messages of each invalid field, normalized from the `errors`,
+    // `invalid-params` and `invalidParams` members.
+    fieldErrors?: { [field: string]: string[] };
 }
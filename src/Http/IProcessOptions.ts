@@ -0,0 +1,33 @@
+/* eslint-disable semi */
+import Diagnostics from './Diagnostics';
+import { IRequestRetryPolicy } from './IRetryPolicy';
+import { ResponseType } from './ResponseDecoders';
+import { Validator } from './Validation';
+
+/**
+ * Options of `processPromise`.
+ */
+export default interface IProcessOptions {
+    // Retries the request, only used if it's given as a function and
+    // `retry.method` is one of the methods retried by the policy.
+    retry?: IRequestRetryPolicy;
+
+    // Decodes the successful body as this type instead of
+    // picking it from the Content-Type.
+    responseType?: ResponseType;
+
+    // Validates the successful body, it fails with a validation problem
+    // if it's invalid.
+    validate?: Validator;
+
+    // Validates the problem body of failed responses.
+    validateProblem?: Validator;
+
+    // External signal, if aborted the promise is cancelled with the
+    // signal reason, aborting the request given as a function.
+    signal?: AbortSignal | null;
+
+    // Where the diagnostic events are emitted, the shared
+    // `diagnostics` by default.
+    diagnostics?: Diagnostics;
+}
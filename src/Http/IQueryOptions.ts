@@ -0,0 +1,24 @@
+/* eslint-disable semi */
+
+/**
+ * Controls how the query parameters are encoded.
+ */
+export default interface IQueryOptions {
+    // How arrays are encoded, for { a: [1, 2] }
+    // - repeat: a=1&a=2 (default)
+    // - brackets: a[]=1&a[]=2
+    // - comma: a=1,2
+    arrayFormat?: 'repeat' | 'brackets' | 'comma';
+
+    // How nested objects are encoded, for { a: { b: 1 } }
+    // - brackets: a[b]=1 (default)
+    // - dots: a.b=1
+    objectFormat?: 'brackets' | 'dots';
+
+    // Null values are skipped by default, `empty` sends them as "a=".
+    // Undefined values are always skipped.
+    nulls?: 'skip' | 'empty';
+
+    // Converts the dates, defaults to their ISO string.
+    serializeDate?: (date: Date) => string;
+}
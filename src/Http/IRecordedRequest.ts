@@ -0,0 +1,13 @@
+/* eslint-disable semi */
+
+/**
+ * Request received by `MockHttpClient`.
+ */
+export default interface IRecordedRequest {
+    method: string;
+    url: string;
+    path: string; // url without the client base url and the query
+    query: URLSearchParams;
+    headers: Headers;
+    body?: BodyInit | null; // as sent, already serialized
+}
\ No newline at end of file
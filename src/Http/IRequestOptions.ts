@@ -0,0 +1,26 @@
+/* eslint-disable semi */
+import IRetryPolicy from './IRetryPolicy';
+import { Progress } from '../TypedPromise';
+import { BuiltInBodyType } from './BodySerializers';
+
+/**
+ * Fetch RequestInit parameters plus the options handled by the HttpClient.
+ */
+export default interface IRequestOptions extends RequestInit {
+    // Query parameters appended to the url.
+    query?: object;
+
+    // Serializer used for the body: json, text, form, multipart, binary,
+    // stream or a registered one. Detected from the body if not set.
+    bodyType?: BuiltInBodyType | (string & {});
+
+    // Milliseconds to wait for the response before aborting the request,
+    // overrides the client timeout. 0 disables it.
+    timeout?: number;
+
+    // Retry policy merged over the client one, false disables retries.
+    retry?: IRetryPolicy | false;
+
+    // Called with the bytes of the body sent, the body is sent as a stream.
+    onUploadProgress?: (progress: Progress) => void;
+}
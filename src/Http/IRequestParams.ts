@@ -0,0 +1,14 @@
+/* eslint-disable semi */
+import IRequestOptions from './IRequestOptions';
+
+/**
+ * Request made through `HttpClient.request`.
+ */
+export default interface IRequestParams {
+    method: string;
+    path: string; // appended to the client base url
+    query?: object; // merged over `init.query`
+    body?: unknown; // serialized as `init.bodyType`, if defined
+    headers?: HeadersInit; // merged over `init.headers`
+    init?: IRequestOptions;
+}
@@ -0,0 +1,11 @@
+/* eslint-disable semi */
+
+/**
+ * Metadata of the response, see `processPromiseWithMeta`.
+ */
+export default interface IResponseMeta {
+    status: number; // 0 if there was no response
+    headers: Headers;
+    url: string; // final url, after redirects
+    durationMs: number; // from the request start until the response headers
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+/* eslint-disable semi */
+import IProblemJson from './IProblemJson';
+
+/**
+ * Outcome of a request attempt, passed to `IRetryPolicy.onAttempt`.
+ */
+export interface IRetryAttempt {
+    attempt: number; // 1 for the first request
+    problem?: IProblemJson; // undefined if the attempt succeeded
+    willRetry: boolean;
+    delay: number; // milliseconds until the next attempt, 0 if there is none
+}
+
+/**
+ * Configures how failed requests are retried.
+ */
+export default interface IRetryPolicy {
+    // Total number of attempts, including the first one. Defaults to 3.
+    maxAttempts?: number;
+
+    // Delay before the first retry in milliseconds, doubled on each retry.
+    // Defaults to 300.
+    baseDelay?: number;
+
+    // Upper bound of the backoff delay and of the Retry-After header in
+    // milliseconds. Defaults to 10000.
+    maxDelay?: number;
+
+    // Randomizes the backoff delay between 0 and its value. Defaults to true.
+    jitter?: boolean;
+
+    // HTTP methods that are retried. Defaults to the idempotent ones,
+    // add 'POST' or 'PATCH' to retry them.
+    methods?: string[];
+
+    // Decides if the failure is retryable, network errors have status 0.
+    // Defaults to network errors and 408, 429, 502, 503, 504 statuses.
+    retryOn?: (problem: IProblemJson, attempt: number) => boolean;
+
+    // Called after each attempt.
+    onAttempt?: (attempt: IRetryAttempt) => void;
+}
+
+/**
+ * Retry policy of a request given as a function to `processPromise`, its
+ * method can't be read from the function so it's required.
+ */
+export interface IRequestRetryPolicy extends IRetryPolicy {
+    // Method of the request, it's only retried if the policy retries it.
+    method: string;
+}
@@ -0,0 +1,10 @@
+/* eslint-disable semi */
+
+/**
+ * Event of a `text/event-stream` response.
+ */
+export default interface IServerSentEvent<Data = string> {
+    event: string; // `message` if the server didn't name it
+    data: Data;
+    id: string; // last event id received, empty if none
+}
\ No newline at end of file
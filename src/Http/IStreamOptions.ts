@@ -0,0 +1,13 @@
+/* eslint-disable semi */
+import IProcessOptions from './IProcessOptions';
+import { StreamFormat } from './StreamDecoders';
+
+/**
+ * Options of `processStream`, `validate` checks each item.
+ */
+export default interface IStreamOptions
+    extends Omit<IProcessOptions, 'responseType'> {
+    // Reads the body in this format instead of picking it
+    // from the Content-Type, ndjson if there is none.
+    format?: StreamFormat;
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+/* eslint-disable semi */
+import IProblemJson from './IProblemJson';
+import { ValidationIssue } from './Validation';
+
+/**
+ * Failure of `processPromise` when the response body didn't pass the
+ * `validate` or `validateProblem` validators.
+ */
+export default interface IValidationProblem extends IProblemJson {
+    type: 'urn:typed-promise:problem:validation';
+    issues: ValidationIssue[];
+}
@@ -0,0 +1,25 @@
+import IHttpRequest from './IHttpRequest';
+
+/**
+ * Called before the request is sent, in the order they were added.
+ *
+ * It can modify the request in place, return a new one or return a
+ * Response to skip the request and use that one instead.
+ */
+export type RequestInterceptor = (
+    request: IHttpRequest,
+) => IHttpRequest | Response | void | Promise<IHttpRequest | Response | void>;
+
+/**
+ * Called with the response, in the order they were added, before it's
+ * returned by the HttpClient. The returned response is given to the next
+ * interceptor.
+ *
+ * `replay` sends the request again, through the request interceptors, the
+ * response it returns is only given to the interceptors after this one.
+ */
+export type ResponseInterceptor = (
+    response: Response,
+    request: IHttpRequest,
+    replay: (request?: IHttpRequest) => Promise<Response>,
+) => Response | Promise<Response>;
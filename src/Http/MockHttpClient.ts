@@ -0,0 +1,455 @@
+import HttpClient from './HttpClient';
+import IMockHttpClientOptions from './IMockHttpClientOptions';
+import IProblemJson from './IProblemJson';
+import IRecordedRequest from './IRecordedRequest';
+import { wait } from './Retry';
+
+/**
+ * Creates the response of a route, it's called for each matching request.
+ */
+export type MockResponder = (
+    request: IRecordedRequest,
+    params: Record<string, string>,
+) => Response | Promise<Response>;
+
+/**
+ * Route of a `MockHttpClient`, the reply builders return the route so they
+ * can be chained.
+ *
+ * @export
+ * @class MockRoute
+ * @typedef {MockRoute}
+ */
+export class MockRoute {
+    private responder: MockResponder = () => new Response(null);
+
+    private pattern: RegExp;
+
+    private paramNames: string[] = [];
+
+    private remaining = Infinity;
+
+    /**
+     * Milliseconds to wait before replying, the client latency if undefined.
+     *
+     * @type {number | undefined}
+     */
+    public latency?: number;
+
+    /**
+     * @param {string} method the request method, or `*` for any
+     * @param {string | RegExp} path path with `:name` parameters or a RegExp
+     * @param {object} [query] parameters the request query must have
+     */
+    constructor(
+        public readonly method: string,
+        public readonly path: string | RegExp,
+        public readonly query?: object,
+    ) {
+        this.pattern =
+            typeof path === 'string'
+                ? new RegExp(
+                      '^' +
+                          path
+                              .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+                              .replace(/:(\w+)/g, (_, name) => {
+                                  this.paramNames.push(name);
+                                  return '([^/]+)';
+                              }) +
+                          '/?$',
+                  )
+                : path;
+    }
+
+    /**
+     * Replies with the status, body and headers.
+     *
+     * @param {number} [status=200]
+     * @param {BodyInit | null} [body=null]
+     * @param {HeadersInit} [headers]
+     * @return {this}
+     */
+    reply(
+        status = 200,
+        body: BodyInit | null = null,
+        headers?: HeadersInit,
+    ): this {
+        return this.replyWith(() => new Response(body, { status, headers }));
+    }
+
+    /**
+     * Replies with the body as json.
+     *
+     * @param {unknown} body
+     * @param {number} [status=200]
+     * @param {HeadersInit} [headers]
+     * @return {this}
+     */
+    replyJson(body: unknown, status = 200, headers?: HeadersInit): this {
+        return this.replyWith(() =>
+            jsonResponse(body, status, 'application/json', headers),
+        );
+    }
+
+    /**
+     * Replies with the problem as problem+json, with its status.
+     *
+     * @param {IProblemJson} problem
+     * @param {HeadersInit} [headers]
+     * @return {this}
+     */
+    replyProblem(problem: IProblemJson, headers?: HeadersInit): this {
+        return this.replyWith(() =>
+            jsonResponse(
+                problem,
+                problem.status,
+                'application/problem+json',
+                headers,
+            ),
+        );
+    }
+
+    /**
+     * Rejects the request like fetch does when it can't connect.
+     *
+     * @param {unknown} [error=new TypeError('Failed to fetch')]
+     * @return {this}
+     */
+    networkError(error: unknown = new TypeError('Failed to fetch')): this {
+        return this.replyWith(() => Promise.reject(error));
+    }
+
+    /**
+     * Replies with the response created by `responder`.
+     *
+     * @param {MockResponder} responder
+     * @return {this}
+     */
+    replyWith(responder: MockResponder): this {
+        this.responder = responder;
+        return this;
+    }
+
+    /**
+     * Waits `ms` before replying, instead of the client latency.
+     *
+     * @param {number} ms
+     * @return {this}
+     */
+    delay(ms: number): this {
+        this.latency = ms;
+        return this;
+    }
+
+    /**
+     * Only replies to the next `count` requests, then it's skipped.
+     *
+     * @param {number} count
+     * @return {this}
+     */
+    times(count: number): this {
+        this.remaining = count;
+        return this;
+    }
+
+    /**
+     * Only replies to the next request.
+     *
+     * @return {this}
+     */
+    once(): this {
+        return this.times(1);
+    }
+
+    /**
+     * Returns the path parameters if the route matches the request.
+     *
+     * @param {IRecordedRequest} request
+     * @return {Record<string, string> | undefined}
+     */
+    match(request: IRecordedRequest): Record<string, string> | undefined {
+        if (this.remaining <= 0) return undefined;
+
+        if (this.method !== '*' && this.method !== request.method) {
+            return undefined;
+        }
+
+        const found = this.pattern.exec(request.path);
+
+        if (!found || !matchesQuery(request.query, this.query)) {
+            return undefined;
+        }
+
+        return this.paramNames.reduce<Record<string, string>>(
+            (params, name, i) => {
+                params[name] = decodeURIComponent(found[i + 1]);
+                return params;
+            },
+            {},
+        );
+    }
+
+    /**
+     * Creates the response, counting the request.
+     *
+     * @param {IRecordedRequest} request
+     * @param {Record<string, string>} params
+     * @return {Promise<Response>}
+     */
+    async respond(
+        request: IRecordedRequest,
+        params: Record<string, string>,
+    ): Promise<Response> {
+        this.remaining--;
+
+        return this.responder(request, params);
+    }
+}
+
+/**
+ * HttpClient that replies from the registered routes instead of making
+ * requests, and records them. Interceptors, serializers, query encoding,
+ * timeouts and retries work like in HttpClient.
+ *
+ * Routes are matched in the order they were added, a request without route
+ * is rejected. `fetch` can also be used as a stand-in of the global fetch.
+ *
+ * @example
+ * const client = new MockHttpClient('http://api');
+ *
+ * client.onGet('/users/:id').replyJson({ id: 1, name: 'enzo' });
+ * client.onPost('/users').replyProblem({ status: 400, title: 'Invalid' });
+ * client.onGet('/health').networkError();
+ *
+ * @export
+ * @class MockHttpClient
+ * @typedef {MockHttpClient}
+ * @extends {HttpClient}
+ */
+export default class MockHttpClient extends HttpClient {
+    /**
+     * Requests received, in order.
+     *
+     * @type {IRecordedRequest[]}
+     */
+    public requests: IRecordedRequest[] = [];
+
+    private routes: MockRoute[] = [];
+
+    private latency: number;
+
+    private mockBaseUrl: string;
+
+    constructor(baseUrl: string = '', options: IMockHttpClientOptions = {}) {
+        super(baseUrl, options);
+
+        this.mockBaseUrl = baseUrl;
+        this.latency = options.latency || 0;
+        this.fetch = this.fetch.bind(this);
+    }
+
+    /**
+     * Adds a route.
+     *
+     * @param {string} method the request method, or `*` for any
+     * @param {string | RegExp} path path with `:name` parameters or a RegExp,
+     * without the base url
+     * @param {object} [query] parameters the request query must have
+     * @return {MockRoute}
+     */
+    on(method: string, path: string | RegExp, query?: object): MockRoute {
+        const route = new MockRoute(method.toUpperCase(), path, query);
+
+        this.routes.push(route);
+
+        return route;
+    }
+
+    onGet(path: string | RegExp, query?: object): MockRoute {
+        return this.on('GET', path, query);
+    }
+
+    onPost(path: string | RegExp, query?: object): MockRoute {
+        return this.on('POST', path, query);
+    }
+
+    onPut(path: string | RegExp, query?: object): MockRoute {
+        return this.on('PUT', path, query);
+    }
+
+    onPatch(path: string | RegExp, query?: object): MockRoute {
+        return this.on('PATCH', path, query);
+    }
+
+    onDelete(path: string | RegExp, query?: object): MockRoute {
+        return this.on('DELETE', path, query);
+    }
+
+    onAny(path: string | RegExp, query?: object): MockRoute {
+        return this.on('*', path, query);
+    }
+
+    /**
+     * Records the request and replies with the first matching route. It
+     * has the signature of the global fetch, so it can replace it.
+     *
+     * @param {RequestInfo | URL} input
+     * @param {RequestInit} [init={}]
+     * @return {Promise<Response>}
+     */
+    async fetch(
+        input: RequestInfo | URL,
+        init: RequestInit = {},
+    ): Promise<Response> {
+        const request = this.record(input, init);
+
+        let params: Record<string, string> | undefined;
+        const route = this.routes.find(r => (params = r.match(request)));
+
+        const signal = init.signal || new AbortController().signal;
+
+        await wait(route?.latency ?? this.latency, signal);
+
+        if (!route || !params) {
+            throw new Error(
+                `No mock route matches ${request.method} ${request.url}`,
+            );
+        }
+
+        return route.respond(request, params);
+    }
+
+    /**
+     * Recorded requests made with the method and path.
+     *
+     * @param {string} [method] any method if undefined
+     * @param {string} [path] any path if undefined
+     * @return {IRecordedRequest[]}
+     */
+    calls(method?: string, path?: string): IRecordedRequest[] {
+        return this.requests.filter(
+            request =>
+                (!method || request.method === method.toUpperCase()) &&
+                (!path || request.path === path),
+        );
+    }
+
+    /**
+     * Throws if the number of requests made with the method and path is not
+     * `times`, or if there are none when it's undefined.
+     *
+     * @param {string} method
+     * @param {string} path
+     * @param {number} [times]
+     */
+    assertCalled(method: string, path: string, times?: number): void {
+        const count = this.calls(method, path).length;
+
+        if (times === undefined ? count === 0 : count !== times) {
+            throw new Error(
+                `Expected ${method.toUpperCase()} ${path} to be called ` +
+                    `${times ?? 'at least once'} times, it was called ` +
+                    `${count} times`,
+            );
+        }
+    }
+
+    /**
+     * Throws if there is a request made with the method and path.
+     *
+     * @param {string} method
+     * @param {string} path
+     */
+    assertNotCalled(method: string, path: string): void {
+        this.assertCalled(method, path, 0);
+    }
+
+    /**
+     * Removes the routes and the recorded requests.
+     */
+    reset(): void {
+        this.routes = [];
+        this.requests = [];
+    }
+
+    /**
+     * Records the request.
+     *
+     * @private
+     * @param {RequestInfo | URL} input
+     * @param {RequestInit} init
+     * @return {IRecordedRequest}
+     */
+    private record(
+        input: RequestInfo | URL,
+        init: RequestInit,
+    ): IRecordedRequest {
+        const url = input instanceof Request ? input.url : String(input);
+        const relative =
+            this.mockBaseUrl && url.startsWith(this.mockBaseUrl)
+                ? url.slice(this.mockBaseUrl.length)
+                : new URL(url, 'http://localhost').pathname +
+                  (url.includes('?') ? url.slice(url.indexOf('?')) : '');
+        const [path, search = ''] = relative.split('?');
+
+        const request: IRecordedRequest = {
+            method: (
+                init.method || (input instanceof Request ? input.method : 'GET')
+            ).toUpperCase(),
+            url,
+            path: path || '/',
+            query: new URLSearchParams(search),
+            headers: new Headers(init.headers),
+            body: init.body,
+        };
+
+        this.requests.push(request);
+
+        return request;
+    }
+}
+
+/**
+ * Checks if the query has the expected parameters, arrays must have the same
+ * values in order.
+ *
+ * @param {URLSearchParams} query
+ * @param {object} [expected]
+ * @return {boolean}
+ */
+function matchesQuery(query: URLSearchParams, expected?: object): boolean {
+    if (!expected) return true;
+
+    return Object.entries(expected).every(([key, value]) =>
+        Array.isArray(value)
+            ? query.getAll(key).join() === value.map(String).join()
+            : query.get(key) === String(value),
+    );
+}
+
+/**
+ * Creates a json response, the Content-Type in `headers` takes precedence.
+ *
+ * @param {unknown} body
+ * @param {number} status
+ * @param {string} contentType
+ * @param {HeadersInit} [headers]
+ * @return {Response}
+ */
+function jsonResponse(
+    body: unknown,
+    status: number,
+    contentType: string,
+    headers?: HeadersInit,
+): Response {
+    const responseHeaders = new Headers(headers);
+
+    if (!responseHeaders.has('Content-Type')) {
+        responseHeaders.set('Content-Type', contentType);
+    }
+
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: responseHeaders,
+    });
+}
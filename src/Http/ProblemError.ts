@@ -0,0 +1,85 @@
+import IProblemJson from './IProblemJson';
+import { readProblem } from './ProblemTypes';
+
+/**
+ * Error carrying the problem details of a failed response, for the code
+ * that prefers throwing over handling `fail`.
+ *
+ * @export
+ * @class ProblemError
+ * @typedef {ProblemError}
+ * @template {IProblemJson} [Problem=IProblemJson]
+ * @extends {Error}
+ */
+export default class ProblemError<
+    Problem extends IProblemJson = IProblemJson,
+> extends Error {
+    /**
+     * Status of the response, or the problem status if there is no response.
+     *
+     * @type {number}
+     */
+    public readonly status: number;
+
+    /**
+     * Final url of the response, empty if there is no response.
+     *
+     * @type {string}
+     */
+    public readonly url: string;
+
+    /**
+     * Headers of the response.
+     *
+     * @type {Headers}
+     */
+    public readonly headers: Headers;
+
+    /**
+     * @param {Problem} problem
+     * @param {Response} [response] the response that failed, its body
+     * might be already consumed
+     */
+    constructor(
+        public readonly problem: Problem,
+        public readonly response?: Response,
+    ) {
+        super(
+            problem.detail ||
+                problem.title ||
+                `Request failed with status ${problem.status}`,
+        );
+
+        this.name = 'ProblemError';
+        this.status = response ? response.status : problem.status;
+        this.url = response ? response.url : '';
+        this.headers = response ? response.headers : new Headers();
+    }
+
+    /**
+     * Reads the problem details of the response.
+     *
+     * @static
+     * @template {IProblemJson} Problem
+     * @param {Response} response
+     * @return {Promise<ProblemError<Problem>>}
+     */
+    static async fromResponse<Problem extends IProblemJson = IProblemJson>(
+        response: Response,
+    ): Promise<ProblemError<Problem>> {
+        const problem = await readProblem(response.clone());
+
+        return new ProblemError(problem as Problem, response);
+    }
+}
+
+/**
+ * Checks if the value is a ProblemError.
+ *
+ * @export
+ * @param {unknown} error
+ * @return {error is ProblemError}
+ */
+export function isProblemError(error: unknown): error is ProblemError {
+    return error instanceof ProblemError;
+}
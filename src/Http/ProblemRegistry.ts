@@ -0,0 +1,171 @@
+import IProblemJson from './IProblemJson';
+import IProcessOptions from './IProcessOptions';
+import TypedPromise from '../TypedPromise';
+import processPromise, { ResponseSource } from './ProcessPromise';
+
+/**
+ * A registered problem, matched by its `type` URI or by the status code.
+ * `Shape` is only used to type the problem.
+ */
+export interface ProblemEntry<Shape extends IProblemJson = IProblemJson> {
+    readonly match: string | number;
+    readonly shape?: Shape;
+}
+
+type ProblemEntries = { [kind: string]: ProblemEntry };
+
+/**
+ * Problem that didn't match any registered entry, like network errors,
+ * timeouts or an unexpected status.
+ */
+export type UnknownProblem = IProblemJson & { kind?: undefined };
+
+/**
+ * Union of the registered problems, discriminated by `kind`, the key they
+ * were registered with, and the problems that didn't match any entry.
+ */
+export type RegisteredProblem<Entries extends ProblemEntries> =
+    | {
+          [K in keyof Entries & string]: (Entries[K] extends ProblemEntry<
+              infer Shape
+          >
+              ? Shape
+              : never) & { kind: K };
+      }[keyof Entries & string]
+    | UnknownProblem;
+
+/**
+ * Handlers of `match`, one for each kind and `_` for the unknown problems.
+ */
+export type ProblemHandlers<P extends { kind?: string }, R> = {
+    [K in NonNullable<P['kind']>]: (problem: Extract<P, { kind: K }>) => R;
+} & {
+    _: (problem: Extract<P, { kind?: undefined }>) => R;
+};
+
+/**
+ * Registers a problem shape.
+ *
+ * @export
+ * @template Shape
+ * @param {string | number} match the problem `type` URI or a status code.
+ * A relative URI, like `/problems/out-of-credit`, also matches absolute
+ * types with that path.
+ * @return {ProblemEntry<Shape>}
+ */
+export function problemType<Shape extends IProblemJson = IProblemJson>(
+    match: string | number,
+): ProblemEntry<Shape> {
+    return { match };
+}
+
+/**
+ * Calls the handler of the problem kind, or `_` if it's unknown. Handlers
+ * of all the kinds are required, so adding a kind to the registry is a
+ * compile error until it's handled.
+ *
+ * @example
+ * promise.fail(
+ *     match({
+ *         'out-of-credit': problem => showTopUp(problem.balance),
+ *         _: problem => showError(problem.title),
+ *     }),
+ * );
+ *
+ * @export
+ * @template P
+ * @template R
+ * @param {ProblemHandlers<P, R>} handlers
+ * @return {(problem: P) => R}
+ */
+export function match<P extends { kind?: string }, R>(
+    handlers: ProblemHandlers<P, R>,
+): (problem: P) => R {
+    return problem => {
+        const handler = (handlers as any)[problem.kind ?? '_'] || handlers._;
+
+        return handler(problem);
+    };
+}
+
+/**
+ * Registry of the problems returned by a backend, it tags each problem with
+ * the `kind` it was registered with so the failures can be discriminated.
+ *
+ * @example
+ * const problems = new ProblemRegistry({
+ *     'out-of-credit': problemType<OutOfCredit>('/problems/out-of-credit'),
+ *     notFound: problemType(404),
+ * });
+ *
+ * problems.process<User>(client.get('/users/1'));
+ *
+ * @export
+ * @class ProblemRegistry
+ * @typedef {ProblemRegistry}
+ * @template {ProblemEntries} Entries
+ */
+export default class ProblemRegistry<Entries extends ProblemEntries> {
+    /**
+     * @param {Entries} entries problems by kind
+     */
+    constructor(public readonly entries: Entries) {}
+
+    /**
+     * Tags the problem with the kind of the matching entry. Type URIs are
+     * matched before status codes.
+     *
+     * @param {IProblemJson} problem
+     * @return {RegisteredProblem<Entries>}
+     */
+    resolve(problem: IProblemJson): RegisteredProblem<Entries> {
+        const kinds = Object.keys(this.entries);
+
+        const kind =
+            kinds.find(kind => matchesType(this.entries[kind], problem)) ??
+            kinds.find(kind => this.entries[kind].match === problem.status);
+
+        return { ...problem, kind } as RegisteredProblem<Entries>;
+    }
+
+    /**
+     * Same as `processPromise` but the failures are resolved with the
+     * registry.
+     *
+     * @template T
+     * @param {ResponseSource} promise
+     * @param {IProcessOptions} [options={}]
+     * @return {TypedPromise<T, RegisteredProblem<Entries>>}
+     */
+    process<T>(
+        promise: ResponseSource,
+        options: IProcessOptions = {},
+    ): TypedPromise<T, RegisteredProblem<Entries>> {
+        return processPromise<T, IProblemJson>(promise, options).mapFail(
+            problem => this.resolve(problem),
+        );
+    }
+}
+
+/**
+ * Checks if the problem type is the one of the entry.
+ *
+ * @param {ProblemEntry} entry
+ * @param {IProblemJson} problem
+ * @return {boolean}
+ */
+function matchesType(entry: ProblemEntry, problem: IProblemJson): boolean {
+    if (typeof entry.match !== 'string' || !problem.type) return false;
+
+    if (problem.type === entry.match) return true;
+
+    if (!entry.match.startsWith('/')) return false;
+
+    try {
+        return (
+            new URL(problem.type, 'http://localhost').pathname === entry.match
+        );
+    } catch (e) {
+        return false;
+    }
+}
@@ -0,0 +1,197 @@
+import Diagnostics from './Diagnostics';
+import IProblemJson from './IProblemJson';
+import IValidationProblem from './IValidationProblem';
+import { mediaType } from './ResponseDecoders';
+import { ValidationIssue } from './Validation';
+import { isTimeout } from '../TimeoutError';
+
+/**
+ * Problem details with the extension members `Extensions`, for example
+ * `ProblemDetails<{ traceId: string }>`.
+ */
+export type ProblemDetails<Extensions extends object = {}> = IProblemJson &
+    Extensions;
+
+/**
+ * Problem type of the failure returned by `processPromise` when the request
+ * was aborted because it timed out.
+ */
+export const TIMEOUT_PROBLEM_TYPE = 'urn:typed-promise:problem:timeout';
+
+/**
+ * Problem type of the failure returned by `processPromise` when the response
+ * body didn't pass validation.
+ */
+export const VALIDATION_PROBLEM_TYPE = 'urn:typed-promise:problem:validation';
+
+/**
+ * Creates the failure of a request that couldn't get a response.
+ *
+ * @export
+ * @param {*} error the error thrown by fetch
+ * @return {IProblemJson}
+ */
+export function networkErrorProblem(error: any): IProblemJson {
+    if (isTimeout(error)) {
+        return {
+            type: TIMEOUT_PROBLEM_TYPE,
+            title: 'Request timeout',
+            detail: error.message,
+            status: 0,
+        };
+    }
+
+    return {
+        title: 'Network error',
+        detail: error?.message,
+        status: 0,
+    };
+}
+
+/**
+ * Creates the failure of a response whose body didn't pass validation.
+ *
+ * @export
+ * @param {ReadonlyArray<ValidationIssue>} issues
+ * @param {number} status status of the response
+ * @return {IValidationProblem}
+ */
+export function validationProblem(
+    issues: ReadonlyArray<ValidationIssue>,
+    status: number,
+): IValidationProblem {
+    return {
+        type: VALIDATION_PROBLEM_TYPE,
+        title: 'Invalid response body',
+        detail: issues
+            .map(issue => `${issue.path}: ${issue.message}`)
+            .join('\n'),
+        status,
+        issues: [...issues],
+    };
+}
+
+/**
+ * Reads the problem details body of a failed response. If the response isn't
+ * a problem+json or it's invalid, the problem only has the status.
+ *
+ * The media type matching ignores the parameters and case, other json
+ * responses are read as problems too.
+ *
+ * @export
+ * @param {Response} response
+ * @param {Diagnostics} [diagnostics] emits `response:not-problem` and
+ * `response:parse-error` if the body is not a valid problem+json
+ * @return {Promise<IProblemJson>}
+ */
+export async function readProblem(
+    response: Response,
+    diagnostics?: Diagnostics,
+): Promise<IProblemJson> {
+    const type = mediaType(response);
+    let problem: any = {};
+
+    if (type !== 'application/problem+json') {
+        diagnostics?.emit({
+            type: 'response:not-problem',
+            url: response.url,
+            status: response.status,
+            contentType: type,
+        });
+    }
+
+    if (/^application\/([\w.-]+\+)?json$/.test(type)) {
+        try {
+            problem = JSON.parse(await response.text());
+        } catch (e) {
+            diagnostics?.emit({
+                type: 'response:parse-error',
+                url: response.url,
+                status: response.status,
+                error: e,
+            });
+        }
+    }
+
+    return normalizeProblem(problem, response.status);
+}
+
+/**
+ * Normalizes a parsed problem details body. The field errors of the
+ * ASP.NET `errors` map, the RFC 9457 `errors` array and the RFC 7807
+ * `invalid-params` array are merged into `fieldErrors`.
+ *
+ * @export
+ * @param {unknown} body parsed problem body
+ * @param {number} status status of the response
+ * @return {IProblemJson}
+ */
+export function normalizeProblem(body: unknown, status: number): IProblemJson {
+    const problem: any =
+        body && typeof body === 'object' && !Array.isArray(body)
+            ? { ...body }
+            : {};
+
+    const fieldErrors: { [field: string]: string[] } = {};
+
+    const add = (field: unknown, message: unknown) => {
+        if (typeof message !== 'string') return;
+
+        const name = typeof field === 'string' ? field : '';
+
+        (fieldErrors[name] = fieldErrors[name] || []).push(message);
+    };
+
+    const { errors } = problem;
+
+    if (Array.isArray(errors)) {
+        errors.forEach(error =>
+            add(
+                error?.pointer !== undefined
+                    ? fromPointer(error.pointer)
+                    : (error?.name ?? error?.field),
+                error?.detail ?? error?.message ?? error?.reason,
+            ),
+        );
+    } else if (errors && typeof errors === 'object') {
+        Object.entries(errors).forEach(([field, messages]) =>
+            (Array.isArray(messages) ? messages : [messages]).forEach(message =>
+                add(field, message),
+            ),
+        );
+    }
+
+    if (Array.isArray(problem['invalid-params'])) {
+        problem['invalid-params'].forEach((param: any) =>
+            add(param?.name, param?.reason),
+        );
+    }
+
+    if (problem.invalidParams && typeof problem.invalidParams === 'object') {
+        Object.entries(problem.invalidParams).forEach(([field, param]: any) =>
+            add(field, param?.reason),
+        );
+    }
+
+    if (Object.keys(fieldErrors).length) problem.fieldErrors = fieldErrors;
+
+    if (!problem.status) problem.status = status || -1;
+
+    return problem;
+}
+
+/**
+ * Converts a JSON pointer, `#/items/0/name`, to a field name, `items.0.name`.
+ *
+ * @param {unknown} pointer
+ * @return {string}
+ */
+function fromPointer(pointer: unknown): string {
+    if (typeof pointer !== 'string') return '';
+
+    return pointer
+        .replace(/^#?\//, '')
+        .split('/')
+        .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+        .join('.');
+}
@@ -1,5 +1,79 @@
+import { diagnostics as sharedDiagnostics } from './Diagnostics';
 import IProblemJson from './IProblemJson';
-import TypedPromise from '../TypedPromise';
+import TypedPromise, { Progress } from '../TypedPromise';
+import IProcessOptions from './IProcessOptions';
+import IValidationProblem from './IValidationProblem';
+import IResponseMeta from './IResponseMeta';
+import {
+    networkErrorProblem,
+    readProblem,
+    validationProblem,
+} from './ProblemTypes';
+import { decodeResponse } from './ResponseDecoders';
+import { trackDownload } from './Progress';
+import { isRetryableMethod, retryRequest } from './Retry';
+import { InferOutput, Validator, validate } from './Validation';
+
+/**
+ * The request to process. It can be the promise returned by fetch/HttpClient
+ * or a function that starts the request with the given signal, so cancelling
+ * the TypedPromise aborts it. The function also receives the progress
+ * reporter of the TypedPromise, to give it to `onUploadProgress`.
+ */
+export type ResponseSource =
+    | Promise<Response>
+    | ((
+          signal: AbortSignal,
+          progress: (progress: Progress) => void,
+      ) => Promise<Response>);
+
+/**
+ * Resolved value of `processPromiseWithMeta`.
+ */
+export type ResponseWithMeta<T> = IResponseMeta & { data: T };
+
+/**
+ * Failure of `processPromiseWithMeta`.
+ */
+export type ProblemWithMeta<Problem> = IResponseMeta & { problem: Problem };
+
+/**
+ * Starts the request if `source` is a function, retrying it if there
+ * is a retry policy that retries `options.retry.method`.
+ *
+ * @export
+ * @param {ResponseSource} source
+ * @param {AbortSignal} signal
+ * @param {(progress: Progress) => void} progress
+ * @param {IProcessOptions} options
+ * @return {Promise<Response>}
+ */
+export function startRequest(
+    source: ResponseSource,
+    signal: AbortSignal,
+    progress: (progress: Progress) => void,
+    options: IProcessOptions,
+): Promise<Response> {
+    if (typeof source !== 'function') return source;
+
+    const request = (attemptSignal: AbortSignal) => {
+        try {
+            return source(attemptSignal, progress);
+        } catch (e) {
+            return Promise.reject(e);
+        }
+    };
+
+    return options.retry &&
+        isRetryableMethod(options.retry, options.retry.method)
+        ? retryRequest(
+              request,
+              options.retry,
+              signal,
+              options.diagnostics || sharedDiagnostics,
+          )
+        : request(signal);
+}
 
 /**
  * Handles the first interaction with a promise from the backend response.
@@ -11,124 +85,213 @@ import TypedPromise from '../TypedPromise';
  * As defined in the backend, this body might contain a title, status
  * and traceId.
  *
+ * The successful body is decoded by its Content-Type, see `decodeResponse`,
+ * or as `options.responseType` if it's set.
+ *
+ * If `promise` is a function it's called with the signal of the returned
+ * TypedPromise, cancelling it aborts the request. It's called again for each
+ * retry if `options.retry` is set and it retries `options.retry.method`, so
+ * POST is only retried if it's in `retry.methods`. It's also cancelled if `options.signal` is aborted.
+ *
+ * Set `options.validate` to check the body at runtime, `T` is inferred from
+ * it and it fails with an `IValidationProblem` if the body is invalid.
+ *
  * @protected
  * @template T
- * @param {Promise<Response>} promise
+ * @param {ResponseSource} promise
+ * @param {IProcessOptions} [options={}]
  * @return {Promise<T>}
  */
+export default function processPromise<
+    V extends Validator,
+    Problem extends IProblemJson = IProblemJson,
+>(
+    promise: ResponseSource,
+    options: IProcessOptions & { validate: V },
+): TypedPromise<InferOutput<V>, Problem | IValidationProblem>;
+export default function processPromise<T, Problem extends IProblemJson>(
+    promise: ResponseSource,
+    options: IProcessOptions & { validateProblem: Validator },
+): TypedPromise<T, Problem | IValidationProblem>;
+export default function processPromise<T, Problem extends IProblemJson>(
+    promise: ResponseSource,
+    options?: IProcessOptions,
+): TypedPromise<T, Problem>;
 export default function processPromise<T, Problem extends IProblemJson>(
-    promise: Promise<Response>,
+    promise: ResponseSource,
+    options: IProcessOptions = {},
 ): TypedPromise<T, Problem> {
-    return new TypedPromise<T, Problem>((ok, fail) => {
-        promise
-            .then(async r => ({
-                status: r.status,
-                headers: r.headers,
-                ok: r.ok, // r oks if status is in [200-299]
-                body: await r.text(),
-            }))
-            .then(r => {
-                if (!r.ok) {
-                    let rejectedJSON: any = { status: r.status || -1 };
-
-                    if (
-                        r.headers.has('Content-Type') &&
-                        r.headers.get('Content-Type') ==
-                        'application/problem+json'
-                    ) {
-                        try {
-                            rejectedJSON = JSON.parse(r.body);
-                        } catch (e) {
-                            console.warn(
-                                'Error parsing json on failed response',
-                                e,
-                            );
-                        }
-                    } else {
-                        console.warn(
-                            'Api server is misbehaving!' +
-                            "didn't respond with a problem+json",
+    return processResponse<T, Problem>(promise, options, body => body as T);
+}
+
+/**
+ * Same as `processPromise` but the body is always read as an ArrayBuffer.
+ *
+ * @export
+ * @template Problem
+ * @param {ResponseSource} promise
+ * @param {Omit<IProcessOptions, 'validate' | 'validateProblem'>} [options={}]
+ * @return {TypedPromise<{ buffer: ArrayBuffer; contentType: string }, Problem>}
+ */
+export function processPromiseAsArrayBuffer<Problem extends IProblemJson>(
+    promise: ResponseSource,
+    options: Omit<IProcessOptions, 'validate' | 'validateProblem'> = {},
+): TypedPromise<{ buffer: ArrayBuffer; contentType: string }, Problem> {
+    return processResponse(
+        promise,
+        { ...options, responseType: 'arrayBuffer' },
+        (body, meta) => ({
+            buffer: body as ArrayBuffer,
+            contentType: meta.headers.get('Content-Type') || '',
+        }),
+    );
+}
+
+/**
+ * Same as `processPromise` but it resolves with the body in `data` next to
+ * the response status, headers, url and the time it took to get the
+ * response, and it fails with the problem in `problem` next to the same
+ * metadata. The status is 0 if there was no response.
+ *
+ * @export
+ * @template T
+ * @template Problem
+ * @param {ResponseSource} promise
+ * @param {IProcessOptions} [options={}]
+ * @return {TypedPromise<ResponseWithMeta<T>, ProblemWithMeta<Problem>>}
+ */
+export function processPromiseWithMeta<T, Problem extends IProblemJson>(
+    promise: ResponseSource,
+    options: IProcessOptions = {},
+): TypedPromise<ResponseWithMeta<T>, ProblemWithMeta<Problem>> {
+    return processResponse(
+        promise,
+        options,
+        (data, meta) => ({ data: data as T, ...meta }),
+        (problem, meta) => ({ problem: problem as Problem, ...meta }),
+    );
+}
+
+/**
+ * Makes the request and decodes the response, failing with the problem
+ * if it's not successful.
+ *
+ * @template T
+ * @template F
+ * @param {ResponseSource} promise
+ * @param {IProcessOptions} options
+ * @param {(body: unknown, meta: IResponseMeta) => T} toValue creates the
+ * resolved value from the decoded body
+ * @param {(problem: IProblemJson, meta: IResponseMeta) => F} [toFailure]
+ * creates the failure from the problem
+ * @return {TypedPromise<T, F>}
+ */
+function processResponse<T, F>(
+    promise: ResponseSource,
+    options: IProcessOptions,
+    toValue: (body: unknown, meta: IResponseMeta) => T,
+    toFailure: (problem: IProblemJson, meta: IResponseMeta) => F = problem =>
+        problem as F,
+): TypedPromise<T, F> {
+    const diagnostics = options.diagnostics || sharedDiagnostics;
+
+    return new TypedPromise<T, F>(
+        (ok, fail, signal, progress) => {
+            const start = Date.now();
+
+            let meta: IResponseMeta = {
+                status: 0,
+                headers: new Headers(),
+                url: '',
+                durationMs: 0,
+            };
+
+            signal.addEventListener(
+                'abort',
+                () =>
+                    diagnostics.emit({
+                        type: 'request:cancel',
+                        reason: signal.reason,
+                    }),
+                { once: true },
+            );
+
+            startRequest(promise, signal, progress, options)
+                .then(async r => {
+                    meta = {
+                        status: r.status,
+                        headers: r.headers,
+                        url: r.url,
+                        durationMs: Date.now() - start,
+                    };
+
+                    // r oks if status is in [200-299]
+                    if (!r.ok) {
+                        const problem = await readProblem(r, diagnostics);
+
+                        return fail(
+                            toFailure(
+                                await checkProblem(
+                                    options.validateProblem,
+                                    problem,
+                                    r,
+                                ),
+                                meta,
+                            ),
                         );
                     }
 
-                    if (!rejectedJSON.status) rejectedJSON.status = r.status;
+                    const body = await decodeResponse(
+                        trackDownload(r, progress),
+                        options.responseType,
+                        diagnostics,
+                    );
 
-                    fail(rejectedJSON);
-                } else {
-                    let json: any = {};
+                    if (!options.validate) return ok(toValue(body, meta));
 
-                    try {
-                        json = JSON.parse(r.body);
-                    } catch (e) {
-                        console.warn(
-                            'Error parsing json on successful response, returning raw data',
-                            e,
+                    const result = await validate(options.validate, body);
+
+                    if (result.issues) {
+                        return fail(
+                            toFailure(
+                                validationProblem(result.issues, r.status),
+                                meta,
+                            ),
                         );
-                        return ok(r.body as T);
                     }
 
-                    return ok(json);
-                }
-            })
-            .catch(e => {
-                fail({
-                    title: 'Network error',
-                    detail: e.message,
-                    status: 0,
-                } as Problem);
-            });
-    });
+                    ok(toValue(result.value, meta));
+                })
+                .catch(e => {
+                    if (!meta.status) meta.durationMs = Date.now() - start;
+
+                    fail(toFailure(networkErrorProblem(e), meta));
+                });
+        },
+        { signal: options.signal || undefined },
+    );
 }
 
-export function processPromiseAsArrayBuffer<Problem extends IProblemJson>(
-    promise: Promise<Response>,
-): TypedPromise<{ buffer: ArrayBuffer; contentType: string }, Problem> {
-    return new TypedPromise<
-        { buffer: ArrayBuffer; contentType: string },
-        Problem
-    >((ok, fail) => {
-        promise
-            .then(async r => ({
-                status: r.status,
-                headers: r.headers,
-                ok: r.ok, // r oks if status is in [200-299]
-                body: await r.arrayBuffer(),
-            }))
-            .then(r => {
-                if (!r.ok) {
-                    let rejectedJSON: any = { status: -1 };
-
-                    if (
-                        r.headers.has('Content-Type') &&
-                        r.headers.get('Content-Type') ==
-                        'application/problem+json'
-                    ) {
-                        try {
-                            const decoder = new TextDecoder('utf-8');
-
-                            const text = decoder.decode(r.body);
-
-                            rejectedJSON = JSON.parse(text);
-                        } catch (e) {
-                            console.warn(
-                                'Error parsing json on failed response',
-                                e,
-                            );
-                        }
-                    } else {
-                        console.warn(
-                            'Api server is misbehaving!' +
-                            "didn't respond with a problem+json",
-                        );
-                    }
+/**
+ * Validates the problem body, returning the validation problem instead
+ * if it's invalid.
+ *
+ * @export
+ * @param {Validator | undefined} validator
+ * @param {IProblemJson} problem
+ * @param {Response} response
+ * @return {Promise<IProblemJson>}
+ */
+export async function checkProblem(
+    validator: Validator | undefined,
+    problem: IProblemJson,
+    response: Response,
+): Promise<IProblemJson> {
+    if (!validator) return problem;
+
+    const result = await validate(validator, problem);
 
-                    fail(rejectedJSON);
-                } else {
-                    return ok({
-                        buffer: r.body,
-                        contentType: r.headers.get('Content-Type') || '',
-                    });
-                }
-            });
-    });
+    return result.issues
+        ? validationProblem(result.issues, response.status)
+        : (result.value as IProblemJson);
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+import Diagnostics, { diagnostics as sharedDiagnostics } from './Diagnostics';
+import IProblemJson from './IProblemJson';
+import IStreamOptions from './IStreamOptions';
+import IValidationProblem from './IValidationProblem';
+import TypedStream from '../TypedStream';
+import {
+    networkErrorProblem,
+    readProblem,
+    validationProblem,
+} from './ProblemTypes';
+import { ResponseSource, checkProblem, startRequest } from './ProcessPromise';
+import { mediaType } from './ResponseDecoders';
+import {
+    StreamFormat,
+    detectStreamFormat,
+    readLines,
+    readServerSentEvents,
+} from './StreamDecoders';
+import { InferOutput, Validator, validate } from './Validation';
+
+/**
+ * Streaming companion of `processPromise`, for the responses that send
+ * NDJSON or `text/event-stream`. The items are parsed as they arrive: each
+ * line of NDJSON and the data of each event, other event fields are
+ * ignored, see `EventStream` for them.
+ *
+ * A failed response, or a network error, fails the stream with its problem
+ * like `processPromise`. The request is made when the stream is iterated,
+ * cancelling it aborts the request.
+ *
+ * Set `options.validate` to check each item, `TItem` is inferred from it and
+ * the stream fails with an `IValidationProblem` on the first invalid one.
+ *
+ * @example
+ * const stream = processStream<LogLine, IProblemJson>(signal =>
+ *     client.get('/logs', { follow: true }, { signal }),
+ * );
+ *
+ * for await (const line of stream) console.log(line.message);
+ *
+ * @export
+ * @template TItem
+ * @template Problem
+ * @param {ResponseSource} source
+ * @param {IStreamOptions} [options={}]
+ * @return {TypedStream<TItem, Problem>}
+ */
+export default function processStream<
+    V extends Validator,
+    Problem extends IProblemJson = IProblemJson,
+>(
+    source: ResponseSource,
+    options: IStreamOptions & { validate: V },
+): TypedStream<InferOutput<V>, Problem | IValidationProblem>;
+export default function processStream<TItem, Problem extends IProblemJson>(
+    source: ResponseSource,
+    options: IStreamOptions & { validateProblem: Validator },
+): TypedStream<TItem, Problem | IValidationProblem>;
+export default function processStream<TItem, Problem extends IProblemJson>(
+    source: ResponseSource,
+    options?: IStreamOptions,
+): TypedStream<TItem, Problem>;
+export default function processStream<TItem, Problem extends IProblemJson>(
+    source: ResponseSource,
+    options: IStreamOptions = {},
+): TypedStream<TItem, Problem> {
+    const diagnostics = options.diagnostics || sharedDiagnostics;
+
+    return new TypedStream<TItem, Problem>(async function* (signal) {
+        signal.addEventListener(
+            'abort',
+            () =>
+                diagnostics.emit({
+                    type: 'request:cancel',
+                    reason: signal.reason,
+                }),
+            { once: true },
+        );
+
+        let response: Response;
+
+        try {
+            response = await startRequest(source, signal, () => {}, options);
+        } catch (e) {
+            throw networkErrorProblem(e);
+        }
+
+        if (!response.ok) {
+            const problem = await readProblem(response, diagnostics);
+
+            throw await checkProblem(
+                options.validateProblem,
+                problem,
+                response,
+            );
+        }
+
+        if (!response.body) return;
+
+        const format =
+            options.format ||
+            detectStreamFormat(mediaType(response)) ||
+            'ndjson';
+
+        for await (const text of readItems(response.body, format)) {
+            const item = parseItem(text, response, diagnostics);
+
+            if (!options.validate) {
+                yield item as TItem;
+                continue;
+            }
+
+            const result = await validate(options.validate, item);
+
+            if (result.issues) {
+                throw validationProblem(result.issues, response.status);
+            }
+
+            yield result.value as TItem;
+        }
+    });
+}
+
+/**
+ * Reads the text of each item, the errors reading the body are converted
+ * to network problems.
+ *
+ * @param {ReadableStream<Uint8Array>} body
+ * @param {StreamFormat} format
+ * @return {AsyncGenerator<string>}
+ */
+async function* readItems(
+    body: ReadableStream<Uint8Array>,
+    format: StreamFormat,
+): AsyncGenerator<string> {
+    try {
+        if (format === 'sse') {
+            for await (const event of readServerSentEvents(body)) {
+                yield event.data;
+            }
+        } else {
+            for await (const line of readLines(body)) {
+                if (line.trim()) yield line;
+            }
+        }
+    } catch (e) {
+        throw networkErrorProblem(e);
+    }
+}
+
+/**
+ * Parses the json of an item, returning the raw text if it's invalid.
+ *
+ * @param {string} text
+ * @param {Response} response
+ * @param {Diagnostics} diagnostics emits `response:parse-error` if the json
+ * is invalid
+ * @return {unknown}
+ */
+function parseItem(
+    text: string,
+    response: Response,
+    diagnostics: Diagnostics,
+): unknown {
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        diagnostics.emit({
+            type: 'response:parse-error',
+            url: response.url,
+            status: response.status,
+            error: e,
+        });
+
+        return text;
+    }
+}
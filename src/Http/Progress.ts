@@ -0,0 +1,164 @@
+import { Progress } from '../TypedPromise';
+
+// bytes read at a time from the upload body
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Returns the response with a body that reports the bytes read. The total
+ * is the Content-Length, if any.
+ *
+ * @export
+ * @param {Response} response
+ * @param {(progress: Progress) => void} onProgress
+ * @return {Response} the same response if it has no body
+ */
+export function trackDownload(
+    response: Response,
+    onProgress: (progress: Progress) => void,
+): Response {
+    if (!response.body) return response;
+
+    const length = Number(response.headers.get('Content-Length'));
+    const total = length > 0 ? length : undefined;
+
+    return withBody(
+        response,
+        countBytes(response.body, loaded =>
+            onProgress({ loaded, total, direction: 'download' }),
+        ),
+    );
+}
+
+/**
+ * Copy of the response with another body.
+ *
+ * @export
+ * @param {Response} response
+ * @param {ReadableStream<Uint8Array>} body
+ * @return {Response}
+ */
+export function withBody(
+    response: Response,
+    body: ReadableStream<Uint8Array>,
+): Response {
+    const copy = new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    });
+
+    // the constructor can't set it, the decoders use it for the diagnostics
+    Object.defineProperty(copy, 'url', { value: response.url });
+
+    return copy;
+}
+
+/**
+ * Returns the request init with the body as a stream that reports the
+ * bytes read by fetch, which are the bytes uploaded as far as it's possible
+ * to know. The body is buffered first to know its size, except if it's
+ * already a stream.
+ *
+ * Streamed request bodies need `duplex: 'half'` and are not supported by
+ * every browser.
+ *
+ * @export
+ * @param {RequestInit} init
+ * @param {(progress: Progress) => void} onProgress
+ * @return {Promise<RequestInit>}
+ */
+export async function trackUpload(
+    init: RequestInit,
+    onProgress: (progress: Progress) => void,
+): Promise<RequestInit> {
+    if (init.body === undefined || init.body === null) return init;
+
+    const headers = new Headers(init.headers);
+    let stream: ReadableStream<Uint8Array>;
+    let total: number | undefined;
+
+    if (init.body instanceof ReadableStream) {
+        stream = init.body;
+
+        const length = Number(headers.get('Content-Length'));
+        total = length > 0 ? length : undefined;
+    } else {
+        // also encodes FormData as multipart and gives its boundary
+        const encoded = new Response(init.body);
+        const blob = await encoded.blob();
+        const contentType = encoded.headers.get('Content-Type');
+
+        if (contentType && !headers.has('Content-Type')) {
+            headers.set('Content-Type', contentType);
+        }
+
+        stream = chunks(blob);
+        total = blob.size;
+    }
+
+    return {
+        ...init,
+        headers,
+        body: countBytes(stream, loaded =>
+            onProgress({ loaded, total, direction: 'upload' }),
+        ),
+        duplex: 'half',
+    } as RequestInit;
+}
+
+/**
+ * Stream that reads `source`, calling `onRead` with the bytes read so far.
+ *
+ * @param {ReadableStream<Uint8Array>} source
+ * @param {(loaded: number) => void} onRead
+ * @return {ReadableStream<Uint8Array>}
+ */
+function countBytes(
+    source: ReadableStream<Uint8Array>,
+    onRead: (loaded: number) => void,
+): ReadableStream<Uint8Array> {
+    const reader = source.getReader();
+    let loaded = 0;
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const { done, value } = await reader.read();
+
+            if (done) {
+                controller.close();
+                return;
+            }
+
+            loaded += value.byteLength;
+            controller.enqueue(value);
+            onRead(loaded);
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+}
+
+/**
+ * Stream of the blob in chunks of `UPLOAD_CHUNK_SIZE` bytes.
+ *
+ * @param {Blob} blob
+ * @return {ReadableStream<Uint8Array>}
+ */
+function chunks(blob: Blob): ReadableStream<Uint8Array> {
+    let offset = 0;
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (offset >= blob.size) {
+                controller.close();
+                return;
+            }
+
+            const chunk = blob.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+            offset += UPLOAD_CHUNK_SIZE;
+
+            controller.enqueue(new Uint8Array(await chunk.arrayBuffer()));
+        },
+    });
+}
@@ -0,0 +1,111 @@
+import IQueryOptions from './IQueryOptions';
+
+/**
+ * Encodes the parameters as a query string, without the leading "?".
+ * Keys and values are encoded.
+ *
+ * @export
+ * @param {object} params
+ * @param {IQueryOptions} [options={}]
+ * @return {string} "key_1=<value_1>&...&key_n=<value_n>"
+ */
+export function encodeQuery(
+    params: object,
+    options: IQueryOptions = {},
+): string {
+    const pairs: string[] = [];
+
+    Object.entries(params).forEach(([key, value]) =>
+        appendPairs(pairs, key, value, options),
+    );
+
+    return pairs.join('&');
+}
+
+/**
+ * Appends the encoded "key=value" pairs of the value to `pairs`,
+ * objects and arrays are flattened.
+ *
+ * @param {string[]} pairs
+ * @param {string} key the unencoded key, with the prefix of its parents
+ * @param {unknown} value
+ * @param {IQueryOptions} options
+ */
+function appendPairs(
+    pairs: string[],
+    key: string,
+    value: unknown,
+    options: IQueryOptions,
+) {
+    if (value === undefined) return;
+
+    if (value === null) {
+        if (options.nulls === 'empty') {
+            pairs.push(encodeURIComponent(key) + '=');
+        }
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        const arrayFormat = options.arrayFormat || 'repeat';
+        const hasObjects = value.some(isNestedObject);
+
+        if (arrayFormat === 'comma' && !hasObjects) {
+            const items = value
+                .filter(item => item !== undefined && item !== null)
+                .map(item => encodeURIComponent(formatValue(item, options)));
+
+            pairs.push(encodeURIComponent(key) + '=' + items.join(','));
+            return;
+        }
+
+        value.forEach((item, i) => {
+            let itemKey = key;
+
+            // the index keeps the properties of each object together
+            if (hasObjects) itemKey = `${key}[${i}]`;
+            else if (arrayFormat === 'brackets') itemKey = `${key}[]`;
+
+            appendPairs(pairs, itemKey, item, options);
+        });
+        return;
+    }
+
+    if (isNestedObject(value)) {
+        Object.entries(value as object).forEach(([property, item]) => {
+            const propertyKey =
+                options.objectFormat === 'dots'
+                    ? `${key}.${property}`
+                    : `${key}[${property}]`;
+
+            appendPairs(pairs, propertyKey, item, options);
+        });
+        return;
+    }
+
+    pairs.push(
+        encodeURIComponent(key) +
+            '=' +
+            encodeURIComponent(formatValue(value, options)),
+    );
+}
+
+const isNestedObject = (value: unknown): boolean =>
+    typeof value === 'object' && value !== null && !(value instanceof Date);
+
+/**
+ * Converts a primitive or date to string.
+ *
+ * @param {unknown} value
+ * @param {IQueryOptions} options
+ * @return {string}
+ */
+function formatValue(value: unknown, options: IQueryOptions): string {
+    if (value instanceof Date) {
+        return options.serializeDate
+            ? options.serializeDate(value)
+            : value.toISOString();
+    }
+
+    return String(value);
+}
@@ -0,0 +1,134 @@
+import Diagnostics from './Diagnostics';
+
+/**
+ * How a successful response body is decoded:
+ * - json: parsed json, application/json and the +json media types.
+ * - ndjson: array with the parsed json of each line, the invalid lines are
+ *   kept as text.
+ * - text: string, text/* and xml media types.
+ * - blob: Blob, any other media type.
+ * - arrayBuffer: ArrayBuffer.
+ * - formData: FormData, multipart and url encoded media types.
+ */
+export type ResponseType =
+    'json' | 'ndjson' | 'text' | 'blob' | 'arrayBuffer' | 'formData';
+
+/**
+ * Media type of the response, lower case and without parameters.
+ *
+ * @export
+ * @param {Response} response
+ * @return {string} empty string if there is no Content-Type
+ */
+export function mediaType(response: Response): string {
+    const contentType = response.headers.get('Content-Type') || '';
+
+    return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Picks the response type from the media type.
+ *
+ * @export
+ * @param {string} type media type, without parameters
+ * @return {ResponseType | undefined} undefined if there is no media type
+ */
+export function detectResponseType(type: string): ResponseType | undefined {
+    if (!type) return undefined;
+
+    if (/^application\/([\w.-]+\+)?json$/.test(type)) return 'json';
+
+    if (type === 'application/x-ndjson' || type === 'application/ndjson') {
+        return 'ndjson';
+    }
+
+    if (type.startsWith('text/') || /[/+]xml$/.test(type)) return 'text';
+
+    if (
+        type === 'multipart/form-data' ||
+        type === 'application/x-www-form-urlencoded'
+    ) {
+        return 'formData';
+    }
+
+    return 'blob';
+}
+
+/**
+ * Decodes the response body.
+ *
+ * Responses without body (204, 205 or Content-Length 0) are decoded as
+ * undefined. If there is no response type nor Content-Type the body is parsed
+ * as json if possible, else it's returned as text.
+ *
+ * @export
+ * @param {Response} response
+ * @param {ResponseType} [responseType] forces the decoder
+ * @param {Diagnostics} [diagnostics] emits `response:parse-error` if the
+ * json, or a ndjson line, is invalid, the raw text is returned in that case
+ * @return {Promise<unknown>}
+ */
+export async function decodeResponse(
+    response: Response,
+    responseType?: ResponseType,
+    diagnostics?: Diagnostics,
+): Promise<unknown> {
+    if (
+        response.status === 204 ||
+        response.status === 205 ||
+        response.headers.get('Content-Length') === '0'
+    ) {
+        return undefined;
+    }
+
+    const type = responseType || detectResponseType(mediaType(response));
+
+    switch (type) {
+        case 'text':
+            return response.text();
+        case 'blob':
+            return response.blob();
+        case 'arrayBuffer':
+            return response.arrayBuffer();
+        case 'formData':
+            return response.formData();
+        case 'ndjson':
+            return (await response.text())
+                .split('\n')
+                .filter(line => line.trim())
+                .map(line => {
+                    try {
+                        return JSON.parse(line);
+                    } catch (e) {
+                        diagnostics?.emit({
+                            type: 'response:parse-error',
+                            url: response.url,
+                            status: response.status,
+                            error: e,
+                        });
+
+                        return line;
+                    }
+                });
+    }
+
+    // json, or unknown
+    const text = await response.text();
+
+    if (!text) return undefined;
+
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        if (type === 'json') {
+            diagnostics?.emit({
+                type: 'response:parse-error',
+                url: response.url,
+                status: response.status,
+                error: e,
+            });
+        }
+
+        return text;
+    }
+}
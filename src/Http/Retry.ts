@@ -0,0 +1,173 @@
+import Diagnostics from './Diagnostics';
+import IProblemJson from './IProblemJson';
+import IRetryPolicy from './IRetryPolicy';
+import { networkErrorProblem, readProblem } from './ProblemTypes';
+
+const RETRYABLE_STATUSES = [0, 408, 429, 502, 503, 504];
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Default predicate of `IRetryPolicy.retryOn`.
+ *
+ * @export
+ * @param {IProblemJson} problem
+ * @return {boolean}
+ */
+export function isRetryableProblem(problem: IProblemJson): boolean {
+    return RETRYABLE_STATUSES.includes(problem.status);
+}
+
+/**
+ * Checks if the requests made with `method` are retried by the policy.
+ *
+ * @export
+ * @param {IRetryPolicy} policy
+ * @param {string} method
+ * @return {boolean}
+ */
+export function isRetryableMethod(
+    policy: IRetryPolicy,
+    method: string,
+): boolean {
+    return (policy.methods || IDEMPOTENT_METHODS).includes(
+        method.toUpperCase(),
+    );
+}
+
+/**
+ * Makes the request until it succeeds, the failure is not retryable
+ * or there are no attempts left.
+ *
+ * The response of the last attempt is returned as is, so it can be processed
+ * like any other response. The wait between attempts is cancelled if
+ * `signal` is aborted.
+ *
+ * @export
+ * @param {(signal: AbortSignal) => Promise<Response>} request makes one attempt
+ * @param {IRetryPolicy} policy
+ * @param {AbortSignal} signal
+ * @param {Diagnostics} [diagnostics] emits `request:retry` before waiting
+ * @param {string} [url] url of the request, for the diagnostics
+ * @return {Promise<Response>}
+ */
+export async function retryRequest(
+    request: (signal: AbortSignal) => Promise<Response>,
+    policy: IRetryPolicy,
+    signal: AbortSignal,
+    diagnostics?: Diagnostics,
+    url = '',
+): Promise<Response> {
+    const maxAttempts = policy.maxAttempts ?? 3;
+    const retryOn = policy.retryOn || isRetryableProblem;
+
+    for (let attempt = 1; ; attempt++) {
+        let response: Response | undefined;
+        let error: unknown;
+
+        try {
+            response = await request(signal);
+        } catch (e) {
+            // cancelled, there is nothing to retry
+            if (signal.aborted) throw e;
+
+            error = e;
+        }
+
+        if (response && response.ok) {
+            policy.onAttempt?.({ attempt, willRetry: false, delay: 0 });
+            return response;
+        }
+
+        const problem = response
+            ? await readProblem(response.clone())
+            : networkErrorProblem(error);
+
+        const willRetry = attempt < maxAttempts && retryOn(problem, attempt);
+        const delay = willRetry
+            ? retryDelay(policy, attempt, response?.headers.get('Retry-After'))
+            : 0;
+
+        policy.onAttempt?.({ attempt, problem, willRetry, delay });
+
+        if (!willRetry) {
+            if (response) return response;
+            throw error;
+        }
+
+        // the body was read from the clone, release the connection
+        response?.body?.cancel().catch(() => {});
+
+        diagnostics?.emit({
+            type: 'request:retry',
+            url: response?.url || url,
+            attempt,
+            delay,
+            problem,
+        });
+
+        await wait(delay, signal);
+    }
+}
+
+/**
+ * Milliseconds to wait before the next attempt, the Retry-After
+ * header takes precedence over the exponential backoff. Both are
+ * capped by `maxDelay`.
+ *
+ * @param {IRetryPolicy} policy
+ * @param {number} attempt the attempt that failed
+ * @param {string | null} [retryAfter] Retry-After header value
+ * @return {number}
+ */
+function retryDelay(
+    policy: IRetryPolicy,
+    attempt: number,
+    retryAfter?: string | null,
+): number {
+    const maxDelay = policy.maxDelay ?? 10000;
+
+    if (retryAfter) {
+        // delay-seconds or an HTTP-date
+        const seconds = Number(retryAfter);
+        const delay = isNaN(seconds)
+            ? Date.parse(retryAfter) - Date.now()
+            : seconds * 1000;
+
+        if (!isNaN(delay)) return Math.min(maxDelay, Math.max(0, delay));
+    }
+
+    const backoff = Math.min(
+        maxDelay,
+        (policy.baseDelay ?? 300) * 2 ** (attempt - 1),
+    );
+
+    return policy.jitter === false ? backoff : Math.random() * backoff;
+}
+
+/**
+ * Resolves after `ms` milliseconds, rejects with the signal reason if
+ * it's aborted before.
+ *
+ * @export
+ * @param {number} ms
+ * @param {AbortSignal} signal
+ * @return {Promise<void>}
+ */
+export function wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(signal.reason);
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,141 @@
+import IServerSentEvent from './IServerSentEvent';
+
+/**
+ * How a streamed body is read:
+ * - ndjson: a json value in each line.
+ * - sse: `text/event-stream` events.
+ */
+export type StreamFormat = 'ndjson' | 'sse';
+
+/**
+ * State of an event stream kept across reconnections, it's updated with
+ * the `id` and `retry` fields.
+ */
+export interface EventStreamState {
+    lastEventId: string;
+    retry?: number; // milliseconds, if the server sent it
+}
+
+/**
+ * Picks the stream format from the media type.
+ *
+ * @export
+ * @param {string} type media type, without parameters
+ * @return {StreamFormat | undefined} undefined if it's not a stream type
+ */
+export function detectStreamFormat(type: string): StreamFormat | undefined {
+    if (type === 'text/event-stream') return 'sse';
+
+    if (
+        type === 'application/x-ndjson' ||
+        type === 'application/ndjson' ||
+        type === 'application/jsonl'
+    ) {
+        return 'ndjson';
+    }
+
+    return undefined;
+}
+
+/**
+ * Reads the body as text lines, ended by `\n`, `\r\n` or `\r`. The last line
+ * is yielded even if it has no line end.
+ *
+ * @export
+ * @param {ReadableStream<Uint8Array>} body
+ * @return {AsyncGenerator<string>}
+ */
+export async function* readLines(
+    body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+
+            buffer += done
+                ? decoder.decode()
+                : decoder.decode(value, { stream: true });
+
+            // a \r at the end could be the start of a \r\n
+            const end =
+                !done && buffer.endsWith('\r')
+                    ? buffer.length - 1
+                    : buffer.length;
+            const lines = buffer.slice(0, end).split(/\r\n|\r|\n/);
+
+            buffer = lines.pop() + buffer.slice(end);
+
+            for (const line of lines) yield line;
+
+            if (done) {
+                if (buffer) yield buffer;
+                return;
+            }
+        }
+    } finally {
+        // stops the download if the reading was stopped before the end
+        reader.cancel().catch(() => {});
+    }
+}
+
+/**
+ * Reads the body as server-sent events, following the parsing rules of
+ * EventSource: comments and unknown fields are ignored, `data` lines are
+ * joined with `\n` and events without data are not dispatched.
+ *
+ * @export
+ * @param {ReadableStream<Uint8Array>} body
+ * @param {EventStreamState} [state] updated with the `id` and `retry`
+ * fields, the events have its `lastEventId`
+ * @return {AsyncGenerator<IServerSentEvent>}
+ */
+export async function* readServerSentEvents(
+    body: ReadableStream<Uint8Array>,
+    state: EventStreamState = { lastEventId: '' },
+): AsyncGenerator<IServerSentEvent> {
+    let event = '';
+    let data: string[] = [];
+
+    for await (const line of readLines(body)) {
+        if (!line) {
+            if (data.length) {
+                yield {
+                    event: event || 'message',
+                    data: data.join('\n'),
+                    id: state.lastEventId,
+                };
+            }
+
+            event = '';
+            data = [];
+            continue;
+        }
+
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+            case 'event':
+                event = value;
+                break;
+            case 'data':
+                data.push(value);
+                break;
+            case 'id':
+                if (!value.includes('\0')) state.lastEventId = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) state.retry = Number(value);
+                break;
+        }
+    }
+}
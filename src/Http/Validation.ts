@@ -0,0 +1,141 @@
+/**
+ * An issue found validating a value, `path` is where it was found, for
+ * example `$.items[0].name`, or `$` if it's the value itself.
+ */
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * Result of a validation, the validated value or the issues found.
+ */
+export type ValidationResult<T> =
+    | { value: T; issues?: undefined }
+    | { issues: ReadonlyArray<ValidationIssue> };
+
+/**
+ * Subset of the Standard Schema interface (https://standardschema.dev),
+ * implemented by zod, valibot, arktype and others.
+ */
+export interface StandardSchema<Output = unknown> {
+    readonly '~standard': {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (
+            value: unknown,
+        ) => StandardResult<Output> | Promise<StandardResult<Output>>;
+        readonly types?: { readonly output: Output };
+    };
+}
+
+type StandardResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | {
+          readonly issues: ReadonlyArray<{
+              readonly message: string;
+              readonly path?: ReadonlyArray<
+                  PropertyKey | { readonly key: PropertyKey }
+              >;
+          }>;
+      };
+
+/**
+ * Validates a value. It can be a Standard Schema, a type guard or a function
+ * returning a `ValidationResult`.
+ */
+export type Validator<T = unknown> =
+    | StandardSchema<T>
+    | ((value: unknown) => value is T)
+    | ((value: unknown) => ValidationResult<T> | Promise<ValidationResult<T>>);
+
+/**
+ * Type of the value validated by `V`.
+ */
+export type InferOutput<V> =
+    V extends StandardSchema<infer T>
+        ? T
+        : V extends (value: unknown) => value is infer T
+          ? T
+          : V extends (value: unknown) => infer R
+            ? Awaited<R> extends ValidationResult<infer T>
+                ? T
+                : unknown
+            : unknown;
+
+/**
+ * Validates `value`. If the validator throws, like `v => schema.parse(v)`
+ * does, the error message is returned as an issue of the value itself.
+ *
+ * @export
+ * @template T
+ * @param {Validator<T>} validator
+ * @param {unknown} value
+ * @return {Promise<ValidationResult<T>>}
+ */
+export async function validate<T>(
+    validator: Validator<T>,
+    value: unknown,
+): Promise<ValidationResult<T>> {
+    try {
+        return await runValidator(validator, value);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        return { issues: [{ path: '$', message }] };
+    }
+}
+
+/**
+ * Calls the validator, normalizing its result.
+ *
+ * @template T
+ * @param {Validator<T>} validator
+ * @param {unknown} value
+ * @return {Promise<ValidationResult<T>>}
+ */
+async function runValidator<T>(
+    validator: Validator<T>,
+    value: unknown,
+): Promise<ValidationResult<T>> {
+    if (typeof validator !== 'function') {
+        const result = await validator['~standard'].validate(value);
+
+        if (!result.issues) return { value: result.value };
+
+        return {
+            issues: result.issues.map(issue => ({
+                path: formatPath(issue.path || []),
+                message: issue.message,
+            })),
+        };
+    }
+
+    const result = await validator(value);
+
+    if (typeof result === 'boolean') {
+        return result
+            ? { value: value as T }
+            : { issues: [{ path: '$', message: 'Invalid value' }] };
+    }
+
+    return result;
+}
+
+/**
+ * Formats a Standard Schema issue path.
+ *
+ * @param {ReadonlyArray<PropertyKey | { key: PropertyKey }>} path
+ * @return {string}
+ */
+function formatPath(
+    path: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>,
+): string {
+    return path.reduce<string>((formatted, segment) => {
+        const key = typeof segment === 'object' ? segment.key : segment;
+
+        return typeof key === 'number'
+            ? `${formatted}[${key}]`
+            : `${formatted}.${String(key)}`;
+    }, '$');
+}
@@ -1,4 +1,83 @@
 export { default as HttpClient } from './HttpClient';
 export { default as IHttpClient } from './IHttpClient';
+export { default as MockHttpClient, MockRoute } from './MockHttpClient';
+export { default as HttpCache } from './HttpCache';
 export { default as IProblemJson } from './IProblemJson';
-export { default as processPromise } from './ProcessPromise';
\ No newline at end of file
+export { default as IRequestOptions } from './IRequestOptions';
+export { default as IRequestParams } from './IRequestParams';
+export { default as IHttpClientOptions } from './IHttpClientOptions';
+export { default as IRetryPolicy } from './IRetryPolicy';
+export { default as IProcessOptions } from './IProcessOptions';
+export { default as IHttpRequest } from './IHttpRequest';
+export { default as IBodySerializer } from './IBodySerializer';
+export { default as IQueryOptions } from './IQueryOptions';
+export { default as IValidationProblem } from './IValidationProblem';
+export { default as IResponseMeta } from './IResponseMeta';
+export { default as ILogger } from './ILogger';
+export { default as IRecordedRequest } from './IRecordedRequest';
+export { default as IMockHttpClientOptions } from './IMockHttpClientOptions';
+export { default as IHttpCacheOptions } from './IHttpCacheOptions';
+export { default as IStreamOptions } from './IStreamOptions';
+export { default as IEventStreamOptions } from './IEventStreamOptions';
+export { default as IServerSentEvent } from './IServerSentEvent';
+export { encodeQuery } from './QueryString';
+export { defaultSerializers } from './BodySerializers';
+export {
+    TIMEOUT_PROBLEM_TYPE,
+    VALIDATION_PROBLEM_TYPE,
+    normalizeProblem,
+    readProblem,
+} from './ProblemTypes';
+export { default as ProblemError, isProblemError } from './ProblemError';
+export {
+    default as ProblemRegistry,
+    problemType,
+    match,
+} from './ProblemRegistry';
+export { isRetryableProblem } from './Retry';
+export {
+    default as processPromise,
+    processPromiseAsArrayBuffer,
+    processPromiseWithMeta,
+} from './ProcessPromise';
+export { decodeResponse } from './ResponseDecoders';
+export { default as processStream } from './ProcessStream';
+export { default as EventStream } from './EventStream';
+export {
+    detectStreamFormat,
+    readLines,
+    readServerSentEvents,
+} from './StreamDecoders';
+export { trackDownload, trackUpload } from './Progress';
+export { default as Diagnostics, diagnostics } from './Diagnostics';
+export type {
+    ResponseSource,
+    ResponseWithMeta,
+    ProblemWithMeta,
+} from './ProcessPromise';
+export type { ProblemDetails } from './ProblemTypes';
+export type { MockResponder } from './MockHttpClient';
+export type {
+    ProblemEntry,
+    ProblemHandlers,
+    RegisteredProblem,
+    UnknownProblem,
+} from './ProblemRegistry';
+export type { IRetryAttempt, IRequestRetryPolicy } from './IRetryPolicy';
+export type { RequestInterceptor, ResponseInterceptor } from './Interceptors';
+export type { BuiltInBodyType } from './BodySerializers';
+export type { ResponseType } from './ResponseDecoders';
+export type { StreamFormat, EventStreamState } from './StreamDecoders';
+export type { EventMap, TypedEvent } from './EventStream';
+export type {
+    Validator,
+    ValidationIssue,
+    ValidationResult,
+    StandardSchema,
+    InferOutput,
+} from './Validation';
+export type {
+    DiagnosticEvent,
+    DiagnosticListener,
+    LogLevel,
+} from './Diagnostics';
\ No newline at end of file
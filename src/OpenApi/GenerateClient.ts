@@ -0,0 +1,492 @@
+import IGenerateOptions from './IGenerateOptions';
+import {
+    HTTP_METHODS,
+    HttpMethod,
+    MediaTypeObject,
+    OpenApiDocument,
+    OperationObject,
+    ParameterObject,
+    RequestBodyObject,
+    ResponseObject,
+    SchemaObject,
+    resolve,
+} from './OpenApiDocument';
+import {
+    declareSchema,
+    docComment,
+    isObjectSchema,
+    memberName,
+    parenthesize,
+    propertyKey,
+    quote,
+    refName,
+    schemaType,
+    typeName,
+} from './SchemaTypes';
+import { detectResponseType } from '../Http/ResponseDecoders';
+
+interface Operation {
+    name: string;
+    method: HttpMethod;
+    path: string;
+    operation: OperationObject;
+    parameters: ParameterObject[];
+}
+
+/**
+ * Types found while generating the methods.
+ */
+interface GeneratedTypes {
+    problems: Set<string>; // names of the schemas used as problems
+    inline: string[]; // declarations of the inline problem schemas
+}
+
+/**
+ * Generates the source of a typed client of the OpenAPI 3 document.
+ *
+ * The document schemas are declared as types, and the client has a method
+ * for each operation that makes the request with an `IHttpClient` and
+ * returns `processPromise(...)`, so it resolves with the success body and
+ * fails with the union of the problems the operation documents, plus
+ * `IProblemJson` for the network errors and undocumented failures.
+ *
+ * The methods take the path and query parameters in `params`, the request
+ * body in `body` and the request options in `init`. Header and cookie
+ * parameters are left to `init.headers`.
+ *
+ * @example
+ * const source = generateClient(document, { clientName: 'PetsClient' });
+ *
+ * // in the app
+ * const pets = new PetsClient(new HttpClient('https://pets.example'));
+ * pets.getPet({ petId: 1 }).ok(pet => ...).fail(problem => ...);
+ *
+ * @export
+ * @param {OpenApiDocument} document
+ * @param {IGenerateOptions} [options={}]
+ * @return {string} TypeScript source
+ */
+export default function generateClient(
+    document: OpenApiDocument,
+    options: IGenerateOptions = {},
+): string {
+    if (
+        typeof document?.openapi !== 'string' ||
+        !document.openapi.startsWith('3.')
+    ) {
+        throw new Error('Only OpenAPI 3 documents are supported');
+    }
+
+    const types: GeneratedTypes = { problems: new Set(), inline: [] };
+
+    const methods = collectOperations(document).map(operation =>
+        operationMethod(document, operation, types),
+    );
+
+    const schemas = Object.entries(document.components?.schemas || {}).map(
+        ([name, schema]) =>
+            declareSchema(name, schema, types.problems.has(typeName(name))),
+    );
+
+    const title = [document.info?.title, document.info?.version]
+        .filter(part => part)
+        .join(' ');
+    const clientName = typeName(options.clientName || 'ApiClient');
+
+    return (
+        '/* eslint-disable */\n' +
+        `// Generated by typed-promise-openapi${
+            title ? ' from ' + title : ''
+        }, do not edit.\n` +
+        'import {\n' +
+        '    IHttpClient,\n' +
+        '    IProblemJson,\n' +
+        '    IRequestOptions,\n' +
+        '    TypedPromise,\n' +
+        '    processPromise,\n' +
+        `} from ${quote(options.importFrom || '@enzo418/typed-promise')};\n` +
+        [...schemas, ...types.inline]
+            .map(declaration => '\n' + declaration)
+            .join('') +
+        '\n' +
+        docComment([`Client of ${title || 'the api'}.`], 0) +
+        `export class ${clientName} {\n` +
+        '    /**\n' +
+        '     * @param {IHttpClient} client makes the requests, with the base\n' +
+        '     * url of the api\n' +
+        '     */\n' +
+        '    constructor(private client: IHttpClient) {}\n' +
+        methods.map(method => '\n' + method).join('') +
+        '}\n'
+    );
+}
+
+/**
+ * Operations of the document, with unique method names.
+ *
+ * @param {OpenApiDocument} document
+ * @return {Operation[]}
+ */
+function collectOperations(document: OpenApiDocument): Operation[] {
+    const operations: Operation[] = [];
+    const names = new Set<string>();
+
+    Object.entries(document.paths || {}).forEach(([path, item]) => {
+        HTTP_METHODS.forEach(method => {
+            const operation = item[method];
+            if (!operation) return;
+
+            const base = memberName(
+                operation.operationId ||
+                    [method, ...path.split('/')]
+                        .map(part => part.replace(/^\{(.*)\}$/, 'by-$1'))
+                        .join('-'),
+            );
+
+            let name = base;
+            for (let i = 2; names.has(name); i++) name = base + i;
+            names.add(name);
+
+            operations.push({
+                name,
+                method,
+                path,
+                operation,
+                parameters: mergeParameters(
+                    (item.parameters || []).map(p => resolve(document, p)),
+                    (operation.parameters || []).map(p => resolve(document, p)),
+                ),
+            });
+        });
+    });
+
+    return operations;
+}
+
+/**
+ * Parameters of the path item overridden by the ones of the operation with
+ * the same name and location.
+ *
+ * @param {ParameterObject[]} inherited
+ * @param {ParameterObject[]} own
+ * @return {ParameterObject[]}
+ */
+function mergeParameters(
+    inherited: ParameterObject[],
+    own: ParameterObject[],
+): ParameterObject[] {
+    return [
+        ...inherited.filter(
+            p => !own.some(o => o.name === p.name && o.in === p.in),
+        ),
+        ...own,
+    ];
+}
+
+/**
+ * Source of the client method of the operation.
+ *
+ * @param {OpenApiDocument} document
+ * @param {Operation} operation
+ * @param {GeneratedTypes} types
+ * @return {string}
+ */
+function operationMethod(
+    document: OpenApiDocument,
+    { name, method, path, operation, parameters }: Operation,
+    types: GeneratedTypes,
+): string {
+    const pathParameters = parameters.filter(p => p.in === 'path');
+    const queryParameters = parameters.filter(p => p.in === 'query');
+    const used = [...pathParameters, ...queryParameters];
+
+    const requestBody = operation.requestBody
+        ? resolve<RequestBodyObject>(document, operation.requestBody)
+        : undefined;
+    const body = requestBody?.content
+        ? bodyType(requestBody.content)
+        : undefined;
+
+    const okType = successType(document, operation);
+    const failType = problemType(document, name, operation, types);
+
+    const args: string[] = [];
+
+    if (used.length) {
+        const required = used.some(p => p.in === 'path' || p.required);
+        const type = schemaType(
+            {
+                type: 'object',
+                properties: Object.fromEntries(
+                    used.map(p => [
+                        p.name,
+                        {
+                            ...p.schema,
+                            description: p.description,
+                            deprecated: p.deprecated,
+                        },
+                    ]),
+                ),
+                required: used
+                    .filter(p => p.in === 'path' || p.required)
+                    .map(p => p.name),
+                additionalProperties: false,
+            },
+            2,
+        );
+
+        args.push(`params: ${type}${required ? '' : ' = {}'}`);
+    }
+
+    if (body) {
+        args.push(`body${requestBody?.required ? '' : '?'}: ${body.type}`);
+    }
+
+    args.push('init: IRequestOptions = {}');
+
+    const request = [
+        `method: ${quote(method.toUpperCase())}`,
+        `path: ${pathExpression(path)}`,
+    ];
+
+    if (queryParameters.length) {
+        const query = queryParameters.map(
+            p => `${propertyKey(p.name)}: ${access(p.name)}`,
+        );
+        const line = `query: { ${query.join(', ')} }`;
+
+        // 16 spaces of indentation and the comma
+        request.push(
+            line.length <= 80 - 17
+                ? line
+                : `query: {\n${query
+                      .map(entry => `                    ${entry},\n`)
+                      .join('')}                }`,
+        );
+    }
+
+    if (body) request.push('body');
+
+    request.push(
+        body?.serializer
+            ? `init: { bodyType: ${quote(body.serializer)}, ...init, signal }`
+            : 'init: { ...init, signal }',
+    );
+
+    return (
+        docComment(
+            [
+                operation.summary,
+                operation.description && operation.summary ? '' : undefined,
+                operation.description,
+                '',
+                `\`${method.toUpperCase()} ${path}\``,
+                operation.deprecated ? '\n@deprecated' : undefined,
+            ],
+            1,
+        ) +
+        `    ${name}(\n` +
+        args.map(arg => `        ${arg},\n`).join('') +
+        `    ): TypedPromise<${okType}, ${failType}> {\n` +
+        `        return processPromise<${okType}, ${failType}>(signal =>\n` +
+        '            this.client.request({\n' +
+        request.map(line => `                ${line},\n`).join('') +
+        '            }),\n' +
+        '            { signal: init.signal },\n' +
+        '        );\n' +
+        '    }\n'
+    );
+}
+
+/**
+ * Type of the request body and the serializer to use, if it can't be
+ * detected from the body.
+ *
+ * @param {{ [mediaType: string]: MediaTypeObject }} content
+ * @return {{ type: string; serializer?: string }}
+ */
+function bodyType(content: { [mediaType: string]: MediaTypeObject }): {
+    type: string;
+    serializer?: string;
+} {
+    const [mediaType, media] = pickContent(content);
+
+    switch (detectResponseType(mediaType)) {
+        case 'json':
+            return { type: schemaType(media?.schema, 2), serializer: 'json' };
+        case 'text':
+            return { type: 'string', serializer: 'text' };
+        case 'formData':
+            return {
+                type:
+                    mediaType === 'multipart/form-data'
+                        ? 'FormData'
+                        : 'URLSearchParams',
+            };
+        default:
+            return { type: 'Blob' };
+    }
+}
+
+/**
+ * Union of the bodies of the successful responses, void if they have none.
+ *
+ * @param {OpenApiDocument} document
+ * @param {OperationObject} operation
+ * @return {string}
+ */
+function successType(
+    document: OpenApiDocument,
+    operation: OperationObject,
+): string {
+    const types = Object.entries(operation.responses || {})
+        .filter(([status]) => /^2/.test(status))
+        .map(([, response]) => {
+            const { content } = resolve<ResponseObject>(document, response);
+
+            return content && Object.keys(content).length
+                ? responseType(content)
+                : 'void';
+        });
+
+    return Array.from(new Set(types)).join(' | ') || 'unknown';
+}
+
+/**
+ * Type of a response body.
+ *
+ * @param {{ [mediaType: string]: MediaTypeObject }} content
+ * @return {string}
+ */
+function responseType(content: { [mediaType: string]: MediaTypeObject }) {
+    const [mediaType, media] = pickContent(content);
+
+    switch (detectResponseType(mediaType)) {
+        case 'json':
+            return schemaType(media?.schema);
+        case 'ndjson':
+            return `${parenthesize(schemaType(media?.schema))}[]`;
+        case 'text':
+            return 'string';
+        case 'formData':
+            return 'FormData';
+        default:
+            return 'Blob';
+    }
+}
+
+/**
+ * Union of the problems of the failed responses, and IProblemJson. The
+ * schemas referenced are added to `types.problems`, and the inline ones are
+ * declared as `<Operation>Problem<Status>`.
+ *
+ * @param {OpenApiDocument} document
+ * @param {string} name name of the operation method
+ * @param {OperationObject} operation
+ * @param {GeneratedTypes} types
+ * @return {string}
+ */
+function problemType(
+    document: OpenApiDocument,
+    name: string,
+    operation: OperationObject,
+    types: GeneratedTypes,
+): string {
+    const problems = Object.entries(operation.responses || {})
+        .filter(([status]) => /^[45]|^default$/i.test(status))
+        .map(([status, response]) => {
+            const { content } = resolve<ResponseObject>(document, response);
+            if (!content) return undefined;
+
+            const [mediaType, media] = pickContent(content);
+            const schema = media?.schema;
+
+            if (
+                !schema ||
+                detectResponseType(mediaType) !== 'json' ||
+                !isObjectSchema(resolve<SchemaObject>(document, schema))
+            ) {
+                return undefined;
+            }
+
+            if (!schema.$ref) {
+                const inline = `${name}-problem-${status}`;
+
+                types.inline.push(declareSchema(inline, schema, true));
+
+                return typeName(inline);
+            }
+
+            types.problems.add(refName(schema.$ref));
+
+            return refName(schema.$ref);
+        })
+        .filter((type): type is string => !!type);
+
+    return Array.from(new Set([...problems, 'IProblemJson'])).join(' | ');
+}
+
+/**
+ * Media type and object of the content, json is preferred.
+ *
+ * @param {{ [mediaType: string]: MediaTypeObject }} content
+ * @return {[string, MediaTypeObject | undefined]}
+ */
+function pickContent(content: {
+    [mediaType: string]: MediaTypeObject;
+}): [string, MediaTypeObject | undefined] {
+    const types = Object.keys(content);
+    const type =
+        types.find(t => detectResponseType(normalize(t)) === 'json') ||
+        types[0] ||
+        '';
+
+    return [normalize(type), content[type]];
+}
+
+/**
+ * Media type in lower case and without parameters.
+ *
+ * @param {string} type
+ * @return {string}
+ */
+function normalize(type: string): string {
+    return type.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Expression of the path, with the path parameters encoded.
+ *
+ * @param {string} path
+ * @return {string}
+ */
+function pathExpression(path: string): string {
+    if (!/\{[^}]+\}/.test(path)) return quote(path);
+
+    return (
+        '`' +
+        path
+            .split(/(\{[^}]+\})/)
+            .map(part =>
+                /^\{.+\}$/.test(part)
+                    ? `\${encodeURIComponent(String(${access(
+                          part.slice(1, -1),
+                      )}))}`
+                    : part.replace(/[`\\]|\$\{/g, match => '\\' + match),
+            )
+            .join('') +
+        '`'
+    );
+}
+
+/**
+ * Expression that reads the parameter from `params`.
+ *
+ * @param {string} name
+ * @return {string}
+ */
+function access(name: string): string {
+    const key = propertyKey(name);
+
+    return key === name ? `params.${name}` : `params[${key}]`;
+}
@@ -0,0 +1,13 @@
+/* eslint-disable semi */
+
+/**
+ * Options of `generateClient`.
+ */
+export default interface IGenerateOptions {
+    // Name of the generated client class, ApiClient by default.
+    clientName?: string;
+
+    // Module the generated code imports TypedPromise, processPromise and
+    // the http types from, this package by default.
+    importFrom?: string;
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { readFile } from 'fs/promises';
+import { OpenApiDocument } from './OpenApiDocument';
+
+/**
+ * Parses an OpenAPI document, json or yaml. YAML needs the optional
+ * `js-yaml` dependency.
+ *
+ * @export
+ * @param {string} text
+ * @param {string} [fileName=''] yaml if it ends with .yaml or .yml, else
+ * picked from the content
+ * @return {OpenApiDocument}
+ */
+export function parseDocument(
+    text: string,
+    fileName: string = '',
+): OpenApiDocument {
+    const yaml =
+        /\.ya?ml$/i.test(fileName) ||
+        (!/\.json$/i.test(fileName) && !/^\s*\{/.test(text));
+
+    return yaml ? parseYaml(text) : JSON.parse(text);
+}
+
+/**
+ * Reads and parses an OpenAPI document file.
+ *
+ * @export
+ * @param {string} file
+ * @return {Promise<OpenApiDocument>}
+ */
+export async function loadDocument(file: string): Promise<OpenApiDocument> {
+    return parseDocument(await readFile(file, 'utf8'), file);
+}
+
+/**
+ * Parses the yaml with `js-yaml`, only the core schema types are allowed.
+ *
+ * @param {string} text
+ * @return {OpenApiDocument}
+ */
+function parseYaml(text: string): OpenApiDocument {
+    let yaml: any;
+
+    try {
+        yaml = require('js-yaml');
+    } catch (e) {
+        throw new Error('Install js-yaml to read YAML documents');
+    }
+
+    return yaml.load(text, { schema: yaml.CORE_SCHEMA });
+}
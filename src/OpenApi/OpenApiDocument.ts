@@ -0,0 +1,127 @@
+/**
+ * Subset of the OpenAPI 3.0 and 3.1 objects read by the generator.
+ * Extensions and the fields that don't change the generated types are
+ * not declared.
+ */
+
+export type Reference = { $ref: string };
+
+export type SchemaObject = {
+    $ref?: string;
+    type?: string | string[];
+    format?: string;
+    enum?: unknown[];
+    const?: unknown;
+    nullable?: boolean;
+    items?: SchemaObject;
+    properties?: { [name: string]: SchemaObject };
+    required?: string[];
+    additionalProperties?: boolean | SchemaObject;
+    oneOf?: SchemaObject[];
+    anyOf?: SchemaObject[];
+    allOf?: SchemaObject[];
+    title?: string;
+    description?: string;
+    deprecated?: boolean;
+};
+
+export type MediaTypeObject = { schema?: SchemaObject };
+
+export type ParameterObject = {
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie';
+    required?: boolean;
+    description?: string;
+    deprecated?: boolean;
+    schema?: SchemaObject;
+};
+
+export type RequestBodyObject = {
+    required?: boolean;
+    description?: string;
+    content?: { [mediaType: string]: MediaTypeObject };
+};
+
+export type ResponseObject = {
+    description?: string;
+    content?: { [mediaType: string]: MediaTypeObject };
+};
+
+export type OperationObject = {
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    deprecated?: boolean;
+    parameters?: (ParameterObject | Reference)[];
+    requestBody?: RequestBodyObject | Reference;
+    responses?: { [status: string]: ResponseObject | Reference };
+};
+
+export type PathItemObject = {
+    parameters?: (ParameterObject | Reference)[];
+} & {
+    [method in HttpMethod]?: OperationObject;
+};
+
+export type HttpMethod =
+    'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace';
+
+export type OpenApiDocument = {
+    openapi: string;
+    info?: { title?: string; version?: string };
+    paths?: { [path: string]: PathItemObject };
+    components?: {
+        schemas?: { [name: string]: SchemaObject };
+        parameters?: { [name: string]: ParameterObject };
+        requestBodies?: { [name: string]: RequestBodyObject };
+        responses?: { [name: string]: ResponseObject };
+    };
+};
+
+export const HTTP_METHODS: HttpMethod[] = [
+    'get',
+    'put',
+    'post',
+    'delete',
+    'options',
+    'head',
+    'patch',
+    'trace',
+];
+
+/**
+ * Follows the reference if `value` is one. Only local references, to the
+ * same document, are supported.
+ *
+ * @export
+ * @template T
+ * @param {OpenApiDocument} document
+ * @param {T | Reference} value
+ * @return {T}
+ */
+export function resolve<T>(document: OpenApiDocument, value: T | Reference): T {
+    const seen = new Set<string>();
+
+    while (value && typeof (value as Reference).$ref === 'string') {
+        const ref = (value as Reference).$ref;
+
+        if (!ref.startsWith('#/')) {
+            throw new Error(`Only local references are supported: ${ref}`);
+        }
+
+        if (seen.has(ref)) throw new Error(`Circular reference: ${ref}`);
+        seen.add(ref);
+
+        value = ref
+            .slice(2)
+            .split('/')
+            .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+            .reduce<any>((node, part) => node?.[part], document);
+
+        if (value === undefined) {
+            throw new Error(`Reference not found: ${ref}`);
+        }
+    }
+
+    return value as T;
+}
@@ -0,0 +1,379 @@
+import { SchemaObject } from './OpenApiDocument';
+
+const INDENT = '    ';
+
+const SCHEMA_REF = '#/components/schemas/';
+
+/**
+ * Identifier in PascalCase of a schema name, like `user-dto` to `UserDto`.
+ *
+ * @export
+ * @param {string} name
+ * @return {string}
+ */
+export function typeName(name: string): string {
+    const identifier = words(name)
+        .map(word => word[0].toUpperCase() + word.slice(1))
+        .join('');
+
+    return /^\d/.test(identifier) ? '_' + identifier : identifier || '_';
+}
+
+/**
+ * Identifier in camelCase, like `list-users` to `listUsers`.
+ *
+ * @export
+ * @param {string} name
+ * @return {string}
+ */
+export function memberName(name: string): string {
+    const identifier = typeName(name);
+
+    return identifier[0] === '_'
+        ? identifier
+        : identifier[0].toLowerCase() + identifier.slice(1);
+}
+
+/**
+ * Name of the type of a schema reference.
+ *
+ * @export
+ * @param {string} ref
+ * @return {string}
+ */
+export function refName(ref: string): string {
+    if (!ref.startsWith(SCHEMA_REF)) {
+        throw new Error(`Only references to schemas are supported: ${ref}`);
+    }
+
+    return typeName(
+        ref.slice(SCHEMA_REF.length).replace(/~1/g, '/').replace(/~0/g, '~'),
+    );
+}
+
+/**
+ * Property key, quoted if it's not a valid identifier.
+ *
+ * @export
+ * @param {string} name
+ * @return {string}
+ */
+export function propertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+/**
+ * String literal with single quotes.
+ *
+ * @export
+ * @param {string} value
+ * @return {string}
+ */
+export function quote(value: string): string {
+    return "'" + value.replace(/\\/g, '\\\\').replace(/'/g, "\\'") + "'";
+}
+
+/**
+ * Doc comment with the lines, empty if there are none.
+ *
+ * @export
+ * @param {(string | undefined)[]} lines
+ * @param {number} indent
+ * @return {string} the comment and a line end
+ */
+export function docComment(
+    lines: (string | undefined)[],
+    indent: number,
+): string {
+    const text = lines
+        .filter(line => line !== undefined)
+        .join('\n')
+        .trim()
+        .replace(/\*\//g, '*\\/');
+
+    if (!text) return '';
+
+    const pad = INDENT.repeat(indent);
+
+    if (!text.includes('\n')) return `${pad}/** ${text} */\n`;
+
+    return (
+        `${pad}/**\n` +
+        text
+            .split('\n')
+            .map(
+                line => `${pad} *${line.trimEnd() ? ' ' + line.trimEnd() : ''}`,
+            )
+            .join('\n') +
+        `\n${pad} */\n`
+    );
+}
+
+/**
+ * TypeScript type of the schema.
+ *
+ * @export
+ * @param {SchemaObject | undefined} schema
+ * @param {number} [indent] indentation of the line where the type starts,
+ * the object types are written in one line if undefined
+ * @return {string}
+ */
+export function schemaType(
+    schema: SchemaObject | undefined,
+    indent?: number,
+): string {
+    if (!schema) return 'unknown';
+
+    if (schema.$ref) return refName(schema.$ref);
+
+    let type: string;
+
+    if ('const' in schema) {
+        type = literal(schema.const);
+    } else if (schema.enum) {
+        type = union(schema.enum.map(literal));
+    } else if (schema.oneOf || schema.anyOf) {
+        type = union(
+            (schema.oneOf || schema.anyOf)!.map(s => schemaType(s, indent)),
+        );
+    } else if (schema.allOf) {
+        type = schema.allOf
+            .map(s => parenthesize(schemaType(s, indent)))
+            .join(' & ');
+    } else if (Array.isArray(schema.type)) {
+        type = union(
+            schema.type.map(t => schemaType({ ...schema, type: t }, indent)),
+        );
+    } else {
+        type = primitiveType(schema, indent);
+    }
+
+    return schema.nullable ? union([type, 'null']) : type;
+}
+
+/**
+ * Declaration of a named schema, an interface if it's an object with
+ * properties, else a type alias. Problem schemas are intersected with
+ * IProblemJson.
+ *
+ * @export
+ * @param {string} name
+ * @param {SchemaObject} schema
+ * @param {boolean} [problem=false]
+ * @return {string}
+ */
+export function declareSchema(
+    name: string,
+    schema: SchemaObject,
+    problem: boolean = false,
+): string {
+    const doc = docComment(
+        [schema.description, schema.deprecated ? '@deprecated' : undefined],
+        0,
+    );
+
+    if (!problem && isPlainObject(schema)) {
+        return `${doc}export interface ${typeName(name)} {\n${members(
+            schema,
+            1,
+        )}}\n`;
+    }
+
+    const type = schemaType(schema, 0);
+
+    return (
+        `${doc}export type ${typeName(name)} = ` +
+        (problem ? `IProblemJson & ${parenthesize(type)}` : type) +
+        ';\n'
+    );
+}
+
+/**
+ * Checks if the schema describes an object, the ones that can extend
+ * IProblemJson. References must be resolved first.
+ *
+ * @export
+ * @param {SchemaObject} schema
+ * @return {boolean}
+ */
+export function isObjectSchema(schema: SchemaObject): boolean {
+    return schema.type === 'object' || !!schema.properties || !!schema.allOf;
+}
+
+/**
+ * Wraps the type in parentheses if it's a union, to use it in an array
+ * or an intersection.
+ *
+ * @export
+ * @param {string} type
+ * @return {string}
+ */
+export function parenthesize(type: string): string {
+    let depth = 0;
+
+    for (const char of type) {
+        if ('{([<'.includes(char)) depth++;
+        else if ('})]>'.includes(char)) depth--;
+        else if (depth === 0 && (char === '|' || char === '&')) {
+            return `(${type})`;
+        }
+    }
+
+    return type;
+}
+
+/**
+ * Type of a schema without composition.
+ *
+ * @param {SchemaObject} schema
+ * @param {number} [indent]
+ * @return {string}
+ */
+function primitiveType(schema: SchemaObject, indent?: number): string {
+    switch (schema.type) {
+        case 'string':
+            return schema.format === 'binary' ? 'Blob' : 'string';
+        case 'integer':
+        case 'number':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'null':
+            return 'null';
+        case 'array':
+            return `${parenthesize(schemaType(schema.items, indent))}[]`;
+        case 'object':
+            return objectType(schema, indent);
+        default:
+            return schema.properties ? objectType(schema, indent) : 'unknown';
+    }
+}
+
+/**
+ * Object type literal of the schema.
+ *
+ * @param {SchemaObject} schema
+ * @param {number} [indent]
+ * @return {string}
+ */
+function objectType(schema: SchemaObject, indent?: number): string {
+    const additional = schema.additionalProperties;
+    const valueType =
+        additional === undefined || additional === true
+            ? 'unknown'
+            : additional === false
+              ? undefined
+              : schemaType(additional, indent);
+
+    if (!schema.properties || !Object.keys(schema.properties).length) {
+        return `Record<string, ${valueType || 'never'}>`;
+    }
+
+    const type =
+        indent === undefined
+            ? `{ ${Object.entries(schema.properties)
+                  .map(([name, property]) => member(schema, name, property))
+                  .join('; ')} }`
+            : `{\n${members(schema, indent + 1)}${INDENT.repeat(indent)}}`;
+
+    return additional && valueType
+        ? `${type} & Record<string, ${valueType}>`
+        : type;
+}
+
+/**
+ * Property lines of an object schema.
+ *
+ * @param {SchemaObject} schema
+ * @param {number} indent
+ * @return {string}
+ */
+function members(schema: SchemaObject, indent: number): string {
+    return Object.entries(schema.properties || {})
+        .map(
+            ([name, property]) =>
+                docComment(
+                    [
+                        property.description,
+                        property.deprecated ? '@deprecated' : undefined,
+                    ],
+                    indent,
+                ) +
+                INDENT.repeat(indent) +
+                member(schema, name, property, indent) +
+                ';\n',
+        )
+        .join('');
+}
+
+/**
+ * Property of an object schema, without the semicolon.
+ *
+ * @param {SchemaObject} schema the object
+ * @param {string} name
+ * @param {SchemaObject} property
+ * @param {number} [indent]
+ * @return {string}
+ */
+function member(
+    schema: SchemaObject,
+    name: string,
+    property: SchemaObject,
+    indent?: number,
+): string {
+    const optional = (schema.required || []).includes(name) ? '' : '?';
+
+    return `${propertyKey(name)}${optional}: ${schemaType(property, indent)}`;
+}
+
+/**
+ * Checks if the schema can be declared as an interface.
+ *
+ * @param {SchemaObject} schema
+ * @return {boolean}
+ */
+function isPlainObject(schema: SchemaObject): boolean {
+    return (
+        (schema.type === 'object' || schema.type === undefined) &&
+        !!schema.properties &&
+        Object.keys(schema.properties).length > 0 &&
+        !schema.nullable &&
+        !schema.enum &&
+        !('const' in schema) &&
+        !schema.oneOf &&
+        !schema.anyOf &&
+        !schema.allOf &&
+        (schema.additionalProperties === undefined ||
+            schema.additionalProperties === false)
+    );
+}
+
+/**
+ * Union of the types, without duplicates.
+ *
+ * @param {string[]} types
+ * @return {string}
+ */
+function union(types: string[]): string {
+    return Array.from(new Set(types)).join(' | ') || 'never';
+}
+
+/**
+ * Literal type of a json value.
+ *
+ * @param {unknown} value
+ * @return {string}
+ */
+function literal(value: unknown): string {
+    return typeof value === 'string' ? quote(value) : JSON.stringify(value);
+}
+
+/**
+ * Words of a name, split on anything that isn't a letter or a digit.
+ *
+ * @param {string} name
+ * @return {string[]}
+ */
+function words(name: string): string[] {
+    return name.split(/[^A-Za-z0-9]+/).filter(word => word);
+}
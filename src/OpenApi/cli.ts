@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+import { writeFile } from 'fs/promises';
+import IGenerateOptions from './IGenerateOptions';
+import generateClient from './GenerateClient';
+import { loadDocument } from './LoadDocument';
+
+const USAGE = `Usage: typed-promise-openapi <document> [options]
+
+Generates a typed client from an OpenAPI 3 document, json or yaml.
+
+Options:
+  -o, --output <file>  file to write, stdout if not given
+  -n, --name <name>    name of the client class, ApiClient by default
+  --import <module>    module the client imports typed-promise from
+  -h, --help           shows this help`;
+
+interface CliArgs {
+    input?: string;
+    output?: string;
+    help: boolean;
+    options: IGenerateOptions;
+}
+
+/**
+ * Parses the command line arguments.
+ *
+ * @export
+ * @param {string[]} args
+ * @return {CliArgs}
+ */
+export function parseArgs(args: string[]): CliArgs {
+    const parsed: CliArgs = { help: false, options: {} };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) {
+                throw new Error(`Missing the value of ${arg}`);
+            }
+
+            return args[++i];
+        };
+
+        switch (arg) {
+            case '-o':
+            case '--output':
+                parsed.output = value();
+                break;
+            case '-n':
+            case '--name':
+                parsed.options.clientName = value();
+                break;
+            case '--import':
+                parsed.options.importFrom = value();
+                break;
+            case '-h':
+            case '--help':
+                parsed.help = true;
+                break;
+            default:
+                if (arg.startsWith('-') || parsed.input) {
+                    throw new Error(`Unexpected argument ${arg}`);
+                }
+
+                parsed.input = arg;
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Runs the generator with the command line arguments.
+ *
+ * @export
+ * @param {string[]} [args=process.argv.slice(2)]
+ * @return {Promise<number>} the exit code
+ */
+export async function main(
+    args: string[] = process.argv.slice(2),
+): Promise<number> {
+    try {
+        const { input, output, help, options } = parseArgs(args);
+
+        if (help || !input) {
+            (help ? console.log : console.error)(USAGE);
+            return help ? 0 : 1;
+        }
+
+        const source = generateClient(await loadDocument(input), options);
+
+        if (output) await writeFile(output, source);
+        else process.stdout.write(source);
+
+        return 0;
+    } catch (e) {
+        console.error((e as Error).message);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    main().then(code => {
+        process.exitCode = code;
+    });
+}
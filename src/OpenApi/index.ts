@@ -0,0 +1,10 @@
+export { default as generateClient } from './GenerateClient';
+export { default as IGenerateOptions } from './IGenerateOptions';
+export { loadDocument, parseDocument } from './LoadDocument';
+export { main } from './cli';
+export type {
+    OpenApiDocument,
+    SchemaObject,
+    OperationObject,
+    ParameterObject,
+} from './OpenApiDocument';
\ No newline at end of file
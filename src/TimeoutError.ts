@@ -0,0 +1,29 @@
+/**
+ * Error used to reject a TypedPromise that didn't settle in time.
+ *
+ * @export
+ * @class TimeoutError
+ * @typedef {TimeoutError}
+ * @extends {Error}
+ */
+export default class TimeoutError extends Error {
+    /**
+     * @param {number} ms the timeout that expired, in milliseconds
+     */
+    constructor(public readonly ms: number) {
+        super(`Timed out after ${ms} ms`);
+
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * Checks if the value is the error of a promise or request that timed out.
+ *
+ * @export
+ * @param {unknown} error
+ * @return {error is TimeoutError}
+ */
+export function isTimeout(error: unknown): error is TimeoutError {
+    return error instanceof TimeoutError;
+}
@@ -1,3 +1,98 @@
+import CancellationError, { isCancellation } from './CancellationError';
+import TimeoutError from './TimeoutError';
+
+/**
+ * How the listeners are called.
+ * - `microtask`: every listener is called asynchronously in the microtask queue,
+ *   even if the promise was already settled, as a native Promise does.
+ * - `sync`: listeners are called in the same call to resolve/reject, or
+ *   immediately if the promise was already settled.
+ */
+export type Scheduling = 'microtask' | 'sync';
+
+export interface TypedPromiseOptions {
+    /**
+     * Defaults to `TypedPromise.defaultScheduling`.
+     */
+    scheduling?: Scheduling;
+
+    /**
+     * External signal, if aborted the promise is cancelled with the signal reason.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Progress reported by the executor, see `progress`.
+ */
+export interface Progress {
+    loaded: number; // bytes, or units of work, done
+    total?: number; // undefined if unknown
+    direction?: 'upload' | 'download';
+}
+
+/**
+ * Failure that no `fail`, `catch` or await consumed, see
+ * `TypedPromise.onUnhandledFailure`.
+ */
+export interface UnhandledFailure<FailType = unknown> {
+    error: FailType;
+    promise: TypedPromise<unknown, FailType>;
+
+    /**
+     * Stack trace of where the promise was created, only if
+     * `TypedPromise.captureStacks` was enabled.
+     */
+    creationStack?: string;
+
+    /**
+     * True if the error was thrown by a listener instead of being the
+     * failure of the promise.
+     */
+    thrown?: boolean;
+}
+
+type OkOf<P> = P extends TypedPromise<infer U, any> ? U : never;
+type FailOf<P> = P extends TypedPromise<any, infer F> ? F : never;
+
+/**
+ * Tuple/array of the ok types of each promise.
+ */
+export type OkTypes<T extends readonly TypedPromise<any, any>[]> = {
+    -readonly [K in keyof T]: OkOf<T[K]>;
+};
+
+/**
+ * Tuple/array of the fail types of each promise.
+ */
+export type FailTypes<T extends readonly TypedPromise<any, any>[]> = {
+    -readonly [K in keyof T]: FailOf<T[K]>;
+};
+
+/**
+ * Outcome of a promise passed to `TypedPromise.allSettled`.
+ */
+export type SettledResult<OkType, FailType> =
+    | { status: 'resolved'; value: OkType }
+    | { status: 'rejected'; error: FailType }
+    | { status: 'cancelled' };
+
+/**
+ * Outcome of a promise, see `toResult`. Narrow it with `ok` and then
+ * with `cancelled`.
+ */
+export type Result<OkType, FailType> =
+    | { ok: true; value: OkType }
+    | { ok: false; cancelled: false; error: FailType }
+    | { ok: false; cancelled: true; reason?: any };
+
+/**
+ * Tuple/array of the settled results of each promise.
+ */
+export type SettledResults<T extends readonly TypedPromise<any, any>[]> = {
+    -readonly [K in keyof T]: SettledResult<OkOf<T[K]>, FailOf<T[K]>>;
+};
+
 /**
  * Shared context between promises.
  *
@@ -10,27 +105,111 @@ class PromiseContext<OkType, FailType> {
     public status: 'pending' | 'resolved' | 'rejected' | 'cancelled' =
         'pending';
 
+    // true after the first call to resolve/reject, the following ones are ignored
+    public settled: boolean = false;
+
     // value returned from each call to `then`, but initially is the same as `value`
     // if resolved, else undefined.
     public thenValue: any;
 
-    public catchCallback: Function | null = null;
-
     // value returned from each call to `catch`, initially after resolve/reject is undefined
     // its initialized in the first `catch` call.
     public thenError: any;
 
-    public okCallback: Function = () => {};
-    public value!: OkType;
+    // exceptions thrown by the `ok` listeners, kept to call
+    // the `catch` listeners registered after the promise resolved.
+    public thrownErrors: any[] = [];
 
-    public failCallback: Function = () => {};
+    public value!: OkType;
     public error!: FailType;
 
-    public finallyCallback: Function = () => {};
+    // listeners, called in the same order they were registered
+    public okCallbacks: Function[] = [];
+    public failCallbacks: Function[] = [];
+    public catchCallbacks: Function[] = [];
+    public finallyCallbacks: Function[] = [];
+    public cancelledCallbacks: Function[] = [];
+    public progressCallbacks: Function[] = [];
+
+    // fail listeners registered by await, they are the only ones
+    // notified if the promise is cancelled.
+    public awaitedCallbacks: Function[] = [];
+
+    // aborted when the promise is cancelled, its signal is given to the executor
+    public abortController: AbortController = new AbortController();
+
+    // value passed to `cancel`
+    public cancelReason: any;
+
+    // error given to await if the promise was cancelled
+    public cancellation: CancellationError | null = null;
+
+    // true once a fail or catch listener was added, the failure is handled
+    public handled: boolean = false;
+
+    // derived promises not cancelled yet, cancelling the last one
+    // cancels this promise unless it has its own listeners
+    public consumers: number = 0;
+
+    // true once an ok, fail, catch or finally listener was added, or
+    // the promise was awaited, besides the ones of the derived promises
+    public listened: boolean = false;
 
-    public cancelledCallback: Function | null = null;
+    // stack of the constructor call, if `TypedPromise.captureStacks`
+    public creationStack?: string;
 
-    public isAwaited: boolean = false;
+    // reports an error thrown by a listener, `catchable` if a catch
+    // listener registered later can still consume it
+    public reportThrown: (error: any, catchable: boolean) => void = () => {};
+
+    constructor(public scheduling: Scheduling) {}
+
+    /**
+     * Runs the task following the scheduling of the promise. It never
+     * throws, an error thrown by the task is reported as an error thrown
+     * by a listener.
+     *
+     * @param {() => void} task
+     */
+    public schedule = (task: () => void) => {
+        if (this.scheduling === 'sync') {
+            this.callSafely(task);
+        } else {
+            queueMicrotask(() => this.callSafely(task));
+        }
+    };
+
+    /**
+     * Calls a listener, if it throws the error is reported instead of
+     * stopping the listeners that follow it.
+     *
+     * @param {Function} func
+     * @param {...any[]} args
+     * @return {any} the value returned by the listener
+     */
+    public callSafely = (func: Function, ...args: any[]): any => {
+        try {
+            return func(...args);
+        } catch (error) {
+            this.reportThrown(error, false);
+        }
+    };
+
+    /**
+     * Calls the function passed with the resolved value, if it
+     * returns something it becomes the new `thenValue`.
+     * If it throws, the error is passed to the catch listeners.
+     *
+     * @param {Function} func
+     */
+    public callAsOk = (func: Function) => {
+        try {
+            this.thenValue = func(this.value) || this.thenValue;
+        } catch (error) {
+            this.thrownErrors.push(error);
+            this.thenError = this.callCatchCallbacksOrReport(error);
+        }
+    };
 
     /**
      * Calls the function passed with all the parameters
@@ -42,22 +221,29 @@ class PromiseContext<OkType, FailType> {
         // thenValue is undefined if rejected, else it's processed `value`
         // we might have an error produced by reject call (error) or an
         // error produced by a throw inside a `then` call.
-        func.apply(null, [this.thenValue, this.error || this.thenError]);
+        this.callSafely(func, this.thenValue, this.error || this.thenError);
     };
 
     /**
-     * Call the catch callback, throws if not found, else returns the
-     * value returned from the catch
+     * Call the catch listeners, reports the error if there are none, else
+     * returns the value returned from the last one
      *
      * @param {*} error
      * @return {any}
      */
-    public callCatchCallbackOrPropagate = (error: any): any => {
-        if (!this.catchCallback) {
-            throw error;
+    public callCatchCallbacksOrReport = (error: any): any => {
+        if (this.catchCallbacks.length === 0) {
+            this.reportThrown(error, true);
+            return undefined;
         }
 
-        return this.catchCallback(error);
+        let result: any;
+
+        this.catchCallbacks.forEach(callback => {
+            result = this.callSafely(callback, error);
+        });
+
+        return result;
     };
 }
 
@@ -80,19 +266,9 @@ class BaseTypedPromise<OkType, FailType> {
     ok(
         callback: (val: OkType) => OkType | void,
     ): TypedPromise<OkType, FailType> {
-        if (this.context.status === 'resolved') {
-            try {
-                this.context.value =
-                    callback(this.context.value) || this.context.value;
-            } catch (error) {
-                this.context.thenError =
-                    this.context.callCatchCallbackOrPropagate(error);
-            }
-        } else {
-            this.context.okCallback = callback;
-        }
+        this.context.listened = true;
 
-        return this as any;
+        return this.addOk(callback);
     }
 
     /**
@@ -103,10 +279,46 @@ class BaseTypedPromise<OkType, FailType> {
      * @param {(v: FailType) => any} callback
      */
     fail(callback: (v: FailType) => any): TypedPromise<OkType, FailType> {
+        this.context.listened = true;
+
+        return this.addFail(callback);
+    }
+
+    /**
+     * Adds an ok listener without counting it as one of the user,
+     * see `derive`.
+     *
+     * @protected
+     * @param {(val: OkType) => OkType | void} callback
+     */
+    protected addOk(
+        callback: (val: OkType) => OkType | void,
+    ): TypedPromise<OkType, FailType> {
+        if (this.context.status === 'resolved') {
+            this.context.schedule(() => this.context.callAsOk(callback));
+        } else {
+            this.context.okCallbacks.push(callback);
+        }
+
+        return this as any;
+    }
+
+    /**
+     * Adds a fail listener without counting it as one of the user,
+     * see `derive`.
+     *
+     * @protected
+     * @param {(v: FailType) => any} callback
+     */
+    protected addFail(
+        callback: (v: FailType) => any,
+    ): TypedPromise<OkType, FailType> {
+        this.context.handled = true;
+
         if (this.context.status === 'rejected') {
-            callback(this.context.error);
+            this.context.schedule(() => callback(this.context.error));
         } else {
-            this.context.failCallback = callback;
+            this.context.failCallbacks.push(callback);
         }
 
         return this as any;
@@ -119,26 +331,56 @@ class BaseTypedPromise<OkType, FailType> {
      * @param {Function} callback
      */
     catch(callback: Function): TypedPromise<OkType, FailType> {
-        if (this.context.status === 'rejected') {
-            callback(this.context.error);
-        } else {
-            this.context.catchCallback = callback;
+        this.context.handled = true;
+        this.context.listened = true;
+
+        if (this.context.status === 'resolved') {
+            // errors thrown before this listener was registered
+            const missed = this.context.thrownErrors.slice();
+
+            this.context.schedule(() =>
+                missed.forEach(error => {
+                    this.context.thenError = this.context.callSafely(
+                        callback,
+                        error,
+                    );
+                }),
+            );
         }
 
+        this.context.catchCallbacks.push(callback);
+
+        return this as any;
+    }
+
+    /**
+     * Sets a listener of the progress reported by the executor. It's called
+     * synchronously on each report until the promise settles.
+     *
+     * @public
+     * @param {(progress: Progress) => any} callback
+     */
+    progress(
+        callback: (progress: Progress) => any,
+    ): TypedPromise<OkType, FailType> {
+        this.context.progressCallbacks.push(callback);
+
         return this as any;
     }
 
     /**
-     * Sets a listener to cancelled
+     * Sets a listener to cancelled, it's called with the cancellation reason.
      *
      * @public
      * @param callback
      */
-    cancelled(callback: () => any): TypedPromise<OkType, FailType> {
+    cancelled(
+        callback: (reason?: any) => any,
+    ): TypedPromise<OkType, FailType> {
         if (this.context.status === 'cancelled') {
-            callback();
+            this.context.schedule(() => callback(this.context.cancelReason));
         } else {
-            this.context.cancelledCallback = callback;
+            this.context.cancelledCallbacks.push(callback);
         }
 
         return this as any;
@@ -163,24 +405,71 @@ class BaseTypedPromise<OkType, FailType> {
      */
     finally(
         callback: (lastOkResult: any, lastError: any) => any,
+    ): TypedPromise<OkType, FailType> {
+        this.context.listened = true;
+
+        return this.addFinally(callback);
+    }
+
+    /**
+     * Adds a finally listener without counting it as one of the user,
+     * see `derive`.
+     *
+     * @protected
+     * @param {(lastOkResult: any, lastError: any) => any} callback
+     */
+    protected addFinally(
+        callback: (lastOkResult: any, lastError: any) => any,
     ): TypedPromise<OkType, FailType> {
         if (
             this.context.status === 'resolved' ||
             this.context.status === 'rejected'
         ) {
-            this.context.callAsFinally(callback);
+            this.context.schedule(() => this.context.callAsFinally(callback));
         } else {
-            this.context.finallyCallback = callback;
+            this.context.finallyCallbacks.push(callback);
         }
 
         return this as any;
     }
 
     /**
-     * Sets the promise as cancelled, when it resolves cancelled will be called
+     * Cancels the promise and aborts the signal given to the executor.
+     * Cancelled listeners are called right away, the following calls
+     * to resolve/reject are ignored.
+     * It does nothing if the promise was already settled or cancelled.
+     *
+     * @public
+     * @param {*} [reason] passed to the cancelled listeners
      */
-    cancel() {
+    cancel(reason?: any) {
+        if (this.context.settled) return;
+
+        this.context.settled = true;
         this.context.status = 'cancelled';
+        this.context.cancelReason = reason;
+        this.context.cancellation = new CancellationError(reason);
+
+        // the promises that depend on this one are cancelled first
+        this.context.abortController.abort(reason);
+
+        this.context.schedule(() => this.notifyCancelled());
+    }
+
+    /**
+     * Calls the cancelled listeners and rejects await with a CancellationError.
+     *
+     * @private
+     */
+    private notifyCancelled() {
+        this.context.cancelledCallbacks.forEach(callback =>
+            this.context.callSafely(callback, this.context.cancelReason),
+        );
+
+        // await subscribed to fail through then(ok, fail)
+        this.context.awaitedCallbacks.forEach(callback =>
+            callback(this.context.cancellation),
+        );
     }
 }
 
@@ -191,7 +480,8 @@ class BaseTypedPromise<OkType, FailType> {
  * It defers in Promise in two thing:
  * - Ok function
  * - Fail function
- * - Doesn't allow chained then/catch, it breaks the types.
+ * - Doesn't allow chained then/catch, it breaks the types. Use `map`, `flatMap`
+ *   and `mapFail` instead, they return a new promise with the transformed types.
  *
  * Ok function is the equivalent to the first `then` in a normal Promise. The type
  * of the callback argument is `OkType`.
@@ -201,9 +491,15 @@ class BaseTypedPromise<OkType, FailType> {
  *
  * An additional catch function is provided to catch exceptions thrown in the `ok` listener.
  *
- * If the promise is cancelled it doesn't care if it was resolved or rejected, it will call
- * to `cancelled` once it was resolved/rejected. But, if it's used with await it will throw
- * {cancelled: true} so you can catch it in a try{}catch{}, there is an example in the tests.
+ * Listeners are called asynchronously in the microtask queue, like a native Promise, unless
+ * the promise is created with the `sync` scheduling. Only the first call to resolve/reject
+ * settles the promise and if the executor throws the promise is rejected.
+ *
+ * If the promise is cancelled it doesn't care if it's resolved or rejected later, it calls
+ * to `cancelled` right away. The executor receives an AbortSignal that is
+ * aborted on cancel, so it can stop the underlying work (e.g. pass it to `fetch`).
+ * But, if it's used with await it will throw a `CancellationError` so you can catch it in a
+ * try{}catch{} and check it with `isCancellation`, there is an example in the tests.
  *
  * @export
  * @class ServiceRequestPromise
@@ -219,89 +515,667 @@ export default class TypedPromise<OkType, FailType> extends BaseTypedPromise<
         action: (
             okCallback: (val: OkType) => OkType | void,
             failCallback: (val: FailType) => any,
+            signal: AbortSignal,
+            progress: (progress: Progress) => void,
         ) => void,
+        options: TypedPromiseOptions = {},
     ) {
-        super(new PromiseContext<OkType, FailType>());
+        super(
+            new PromiseContext<OkType, FailType>(
+                options.scheduling || TypedPromise.defaultScheduling,
+            ),
+        );
+
+        if (TypedPromise.captureStacks) {
+            this.context.creationStack = new Error(
+                'TypedPromise created',
+            ).stack;
+        }
+
+        this.context.reportThrown = this.reportThrown.bind(this);
+
+        const external = options.signal;
+
+        if (external) {
+            if (external.aborted) {
+                this.cancel(external.reason);
+            } else {
+                external.addEventListener(
+                    'abort',
+                    () => this.cancel(external.reason),
+                    { once: true },
+                );
+            }
+        }
+
+        // if action throws the promise is rejected with the thrown value
+        try {
+            action(
+                this.resolve.bind(this),
+                this.reject.bind(this),
+                this.context.abortController.signal,
+                this.report.bind(this),
+            );
+        } catch (error) {
+            this.reject(error as FailType);
+        }
+    }
+
+    /**
+     * Scheduling used by the promises created without an explicit one.
+     *
+     * @static
+     * @type {Scheduling}
+     */
+    static defaultScheduling: Scheduling = 'microtask';
+
+    /**
+     * Called when a promise is rejected and there is no `fail`, `catch` or
+     * await consuming the failure by the next tick, like the
+     * `unhandledrejection` event of native promises.
+     *
+     * It's also called with the errors thrown by the listeners that no
+     * `catch` listener consumed, with `thrown` set. They are logged with
+     * `console.error` if it's null.
+     *
+     * @static
+     * @type {((failure: UnhandledFailure) => void) | null}
+     */
+    static onUnhandledFailure: ((failure: UnhandledFailure) => void) | null =
+        null;
+
+    /**
+     * Captures the stack trace of where each promise is created, to give it
+     * to `onUnhandledFailure`. Enabled by default unless NODE_ENV is
+     * production, as it makes creating promises slower.
+     *
+     * @static
+     * @type {boolean}
+     */
+    static captureStacks: boolean =
+        (globalThis as any).process?.env?.NODE_ENV !== 'production';
+
+    /**
+     * Resolves with the values of all the promises, in the same order, once all
+     * of them resolved. It's rejected with the error of the first one that fails.
+     *
+     * If one of them is cancelled the returned promise is cancelled too, and
+     * cancelling the returned promise cancels the pending ones.
+     *
+     * @static
+     * @template T
+     * @param {T} promises
+     * @return {TypedPromise<OkTypes<T>, FailTypes<T>[number]>}
+     */
+    static all<T extends readonly TypedPromise<any, any>[] | []>(
+        promises: T,
+    ): TypedPromise<OkTypes<T>, FailTypes<T>[number]> {
+        return TypedPromise.combine(promises, 'one', (ok, fail) => {
+            const values: any[] = new Array(promises.length);
+            let remaining = promises.length;
+
+            if (remaining === 0) return ok(values as OkTypes<T>);
+
+            promises.forEach((promise, i) => {
+                promise
+                    .ok(value => {
+                        values[i] = value;
+
+                        if (--remaining === 0) ok(values as OkTypes<T>);
+                    })
+                    .fail(fail);
+            });
+        });
+    }
+
+    /**
+     * Resolves with the outcome of each promise, in the same order, once
+     * all of them were resolved, rejected or cancelled. It's never rejected.
+     *
+     * Cancelling the returned promise cancels the pending ones.
+     *
+     * @static
+     * @template T
+     * @param {T} promises
+     * @return {TypedPromise<SettledResults<T>, never>}
+     */
+    static allSettled<T extends readonly TypedPromise<any, any>[] | []>(
+        promises: T,
+    ): TypedPromise<SettledResults<T>, never> {
+        return TypedPromise.combine(promises, 'none', ok => {
+            const results: SettledResult<any, any>[] = new Array(
+                promises.length,
+            );
+            let remaining = promises.length;
+
+            const settle = (i: number, result: SettledResult<any, any>) => {
+                results[i] = result;
+
+                if (--remaining === 0) ok(results as SettledResults<T>);
+            };
+
+            if (remaining === 0) return ok(results as SettledResults<T>);
+
+            promises.forEach((promise, i) => {
+                promise
+                    .ok(value => settle(i, { status: 'resolved', value }))
+                    .fail(error => settle(i, { status: 'rejected', error }))
+                    .cancelled(() => settle(i, { status: 'cancelled' }));
+            });
+        });
+    }
+
+    /**
+     * Settles the same way as the first promise that settles.
+     *
+     * A cancelled promise leaves the race without affecting the others, the
+     * returned promise is only cancelled if all of them are. Cancelling the
+     * returned promise cancels the pending ones.
+     *
+     * @static
+     * @template T
+     * @param {T} promises
+     * @return {TypedPromise<OkTypes<T>[number], FailTypes<T>[number]>}
+     */
+    static race<T extends readonly TypedPromise<any, any>[] | []>(
+        promises: T,
+    ): TypedPromise<OkTypes<T>[number], FailTypes<T>[number]> {
+        return TypedPromise.combine(promises, 'every', (ok, fail) => {
+            promises.forEach(promise => {
+                promise.ok(value => void ok(value)).fail(fail);
+            });
+        });
+    }
+
+    /**
+     * Resolves with the value of the first promise that resolves. It's rejected
+     * with the errors of all the promises, in the same order, if none of them
+     * resolves.
+     *
+     * A cancelled promise counts as one that didn't resolve, its error is
+     * undefined, the returned promise is only cancelled if all of them are.
+     * Cancelling the returned promise cancels the pending ones.
+     *
+     * @static
+     * @template T
+     * @param {T} promises
+     * @return {TypedPromise<OkTypes<T>[number], Partial<FailTypes<T>>>}
+     */
+    static any<T extends readonly TypedPromise<any, any>[] | []>(
+        promises: T,
+    ): TypedPromise<OkTypes<T>[number], Partial<FailTypes<T>>> {
+        return TypedPromise.combine(promises, 'every', (ok, fail) => {
+            const errors: any[] = new Array(promises.length);
+            let remaining = promises.length;
+
+            const settle = (i: number, error?: any) => {
+                errors[i] = error;
+
+                if (--remaining === 0) fail(errors as Partial<FailTypes<T>>);
+            };
+
+            if (remaining === 0) return fail(errors as Partial<FailTypes<T>>);
+
+            promises.forEach((promise, i) => {
+                promise
+                    .ok(value => void ok(value))
+                    .fail(error => settle(i, error))
+                    .cancelled(() => settle(i));
+            });
+        });
+    }
+
+    /**
+     * Creates a promise settled with the result, resolved, rejected or
+     * cancelled with the result reason.
+     *
+     * @static
+     * @template U
+     * @template F
+     * @param {Result<U, F>} result
+     * @return {TypedPromise<U, F>}
+     */
+    static fromResult<U, F>(result: Result<U, F>): TypedPromise<U, F> {
+        const promise = new TypedPromise<U, F>((ok, fail) => {
+            if (result.ok) ok(result.value);
+            else if (!result.cancelled) fail(result.error);
+        });
+
+        if (!result.ok && result.cancelled) promise.cancel(result.reason);
+
+        return promise;
+    }
+
+    /**
+     * Lifts a native promise. The rejection is converted to the fail type
+     * with `mapError`, a rejection with a `CancellationError` cancels the
+     * returned promise instead.
+     *
+     * @static
+     * @template U
+     * @template F
+     * @param {PromiseLike<U>} promise
+     * @param {(error: unknown) => F} [mapError] if it throws the promise is
+     * rejected with the thrown value
+     * @return {TypedPromise<U, F>}
+     */
+    static fromPromise<U, F = unknown>(
+        promise: PromiseLike<U>,
+        mapError: (error: unknown) => F = error => error as F,
+    ): TypedPromise<U, F> {
+        const lifted = new TypedPromise<U, F>((ok, fail) => {
+            promise.then(
+                value => void ok(value),
+                error => {
+                    if (isCancellation(error)) {
+                        lifted.cancel(error.reason);
+                        return;
+                    }
+
+                    try {
+                        fail(mapError(error));
+                    } catch (thrown) {
+                        fail(thrown as F);
+                    }
+                },
+            );
+        });
 
-        // if action throws it will propagate
-        action(this.resolve.bind(this), this.reject.bind(this));
+        return lifted;
+    }
+
+    /**
+     * Creates a promise that depends on `promises`. Cancelling it
+     * cancels the ones that are still pending.
+     *
+     * @private
+     * @static
+     * @param promises
+     * @param {'one' | 'every' | 'none'} followCancel cancel it when one of
+     * `promises` is cancelled, when every one of them is, or never
+     * @param action the promise executor
+     */
+    private static combine<U, F>(
+        promises: readonly TypedPromise<any, any>[],
+        followCancel: 'one' | 'every' | 'none',
+        action: (ok: (val: U) => void, fail: (val: F) => void) => void,
+    ): TypedPromise<U, F> {
+        const aggregate = new TypedPromise<U, F>(action);
+
+        aggregate.onAbort(reason =>
+            promises.forEach(promise => promise.cancel(reason)),
+        );
+
+        if (followCancel === 'none') return aggregate;
+
+        let remaining = promises.length;
+
+        const memberCancelled = (reason: any) => {
+            if (followCancel === 'one' || --remaining === 0) {
+                aggregate.cancel(reason);
+            }
+        };
+
+        promises.forEach(promise => {
+            if (promise.context.status === 'cancelled') {
+                memberCancelled(promise.context.cancelReason);
+            } else {
+                promise.onAbort(memberCancelled);
+            }
+        });
+
+        return aggregate;
     }
 
     /**
      * Function added to support await
      * @param callback on success. Await registers its "success" callback here.
      * @param rejected on error. Await registers its "catch" callback here that
-     * it converts into an error catchable by a try{}catch{}.
+     * it converts into an error catchable by a try{}catch{}. If the promise is
+     * cancelled it's called with a `CancellationError`.
      * @returns
      */
     protected then(
         callback: (val: OkType) => OkType | void,
-        rejected?: (error: FailType) => any,
+        rejected?: (error: FailType | CancellationError) => any,
     ): void {
-        this.context.isAwaited = true;
+        this.ok(callback);
 
-        if (this.context.status === 'resolved') {
-            try {
-                this.context.value =
-                    callback(this.context.value) || this.context.value;
-            } catch (error) {
-                this.context.thenError =
-                    this.context.callCatchCallbackOrPropagate(error);
-            }
+        if (!rejected) return;
+
+        if (this.context.status === 'cancelled') {
+            this.context.schedule(() => rejected(this.context.cancellation!));
         } else {
-            this.context.okCallback = callback;
+            this.context.awaitedCallbacks.push(rejected);
+            this.fail(rejected);
         }
+    }
 
-        if (rejected) this.context.failCallback = rejected;
+    /**
+     * Returns a new promise that resolves with the value returned by `callback`
+     * and rejects with the same error as this promise.
+     *
+     * If `callback` throws, the returned promise is rejected with the thrown value.
+     * It isn't checked against `FailType`, so `callback` should only throw
+     * failures of that type, use `flatMap` to fail with another type.
+     *
+     * @public
+     * @template U
+     * @param {(val: OkType) => U} callback
+     * @return {TypedPromise<U, FailType>}
+     */
+    map<U>(callback: (val: OkType) => U): TypedPromise<U, FailType> {
+        return this.derive<U, FailType>(
+            (value, ok, fail) => {
+                try {
+                    ok(callback(value));
+                } catch (error) {
+                    fail(error as FailType);
+                }
+            },
+            (error, _, fail) => fail(error),
+        );
     }
 
-    private resolve(value: OkType) {
-        // if it was cancelled
-        if (this.context.status === 'cancelled') {
-            if (this.context.cancelledCallback)
-                this.context.cancelledCallback();
+    /**
+     * Returns a new promise that follows the promise returned by `callback`.
+     * It's rejected with this promise error or with the error of the returned
+     * one, so the fail type is the union of both. If `callback` throws, it's
+     * rejected with the thrown value, typed as `F2` without being checked.
+     *
+     * Cancelling the returned promise cancels the one returned by `callback`,
+     * and it's cancelled if that one is.
+     *
+     * @public
+     * @template U
+     * @template F2
+     * @param {(val: OkType) => TypedPromise<U, F2>} callback
+     * @return {TypedPromise<U, FailType | F2>}
+     */
+    flatMap<U, F2>(
+        callback: (val: OkType) => TypedPromise<U, F2>,
+    ): TypedPromise<U, FailType | F2> {
+        return this.derive<U, FailType | F2>(
+            (value, ok, fail, derived) => {
+                let inner: TypedPromise<U, F2>;
 
-            // await subscribed to fail through then(ok, fail)
-            if (this.context.isAwaited)
-                this.context.failCallback({ cancelled: true });
-            return;
-        }
+                try {
+                    inner = callback(value);
+                } catch (error) {
+                    fail(error as F2);
+                    return;
+                }
+
+                // cancelling one of them cancels the other
+                derived.onAbort(reason => inner.cancel(reason));
+                inner
+                    .ok(v => void ok(v))
+                    .fail(fail)
+                    .cancelled(reason => derived.cancel(reason));
+            },
+            (error, _, fail) => fail(error),
+        );
+    }
+
+    /**
+     * Returns a new promise that resolves with the same value as this promise
+     * and rejects with the value returned by `callback`.
+     *
+     * @public
+     * @template F2
+     * @param {(error: FailType) => F2} callback
+     * @return {TypedPromise<OkType, F2>}
+     */
+    mapFail<F2>(callback: (error: FailType) => F2): TypedPromise<OkType, F2> {
+        return this.derive<OkType, F2>(
+            (value, ok) => ok(value),
+            (error, _, fail) => {
+                try {
+                    fail(callback(error));
+                } catch (thrown) {
+                    fail(thrown as F2);
+                }
+            },
+        );
+    }
+
+    /**
+     * Returns a new promise that is rejected if this one doesn't settle in `ms`
+     * milliseconds. On timeout this promise is cancelled, aborting its signal,
+     * with the timeout failure as the reason.
+     *
+     * @public
+     * @template F2
+     * @param {number} ms
+     * @param {() => F2} [onTimeout] creates the failure, defaults to a `TimeoutError`
+     * @return {TypedPromise<OkType, FailType | F2>}
+     */
+    timeout<F2 = TimeoutError>(
+        ms: number,
+        onTimeout?: () => F2,
+    ): TypedPromise<OkType, FailType | F2> {
+        const derived = this.derive<OkType, FailType | F2>(
+            (value, ok) => ok(value),
+            (error, _, fail) => fail(error),
+        );
+
+        const timer = setTimeout(() => {
+            const failure = onTimeout
+                ? onTimeout()
+                : (new TimeoutError(ms) as F2);
+
+            // rejected before cancelling this one, so it isn't cancelled too
+            derived.reject(failure);
+            this.cancel(failure);
+        }, ms);
+
+        derived.addFinally(() => clearTimeout(timer));
+        derived.onAbort(() => clearTimeout(timer));
+
+        return derived;
+    }
+
+    /**
+     * Returns a native promise that always resolves with the outcome of
+     * this one, so awaiting it gives a typed error without try/catch.
+     *
+     * @example
+     * const result = await promise.toResult();
+     * if (result.ok) use(result.value);
+     * else if (!result.cancelled) handle(result.error);
+     *
+     * @public
+     * @return {Promise<Result<OkType, FailType>>}
+     */
+    toResult(): Promise<Result<OkType, FailType>> {
+        return new Promise(resolve => {
+            this.ok(value => void resolve({ ok: true, value }))
+                .fail(error => resolve({ ok: false, cancelled: false, error }))
+                .cancelled(reason =>
+                    resolve({ ok: false, cancelled: true, reason }),
+                );
+        });
+    }
+
+    /**
+     * Returns a native promise that resolves with the value, rejects
+     * with the failure or with a `CancellationError` if it's cancelled.
+     *
+     * @public
+     * @return {Promise<OkType>}
+     */
+    toPromise(): Promise<OkType> {
+        return new Promise((resolve, reject) =>
+            this.then(value => void resolve(value), reject),
+        );
+    }
+
+    /**
+     * Creates a promise, with its own context, that settles from the
+     * outcome of this one. If this promise is cancelled the derived
+     * one is cancelled too. Cancelling the derived one only cancels this
+     * if it was the last derived promise not cancelled and this one has
+     * no listeners of its own, so its siblings and listeners are kept.
+     *
+     * @private
+     */
+    private derive<U, F2>(
+        onOk: (
+            value: OkType,
+            ok: (val: U) => void,
+            fail: (error: F2) => void,
+            derived: TypedPromise<U, F2>,
+        ) => void,
+        onFail: (
+            error: FailType,
+            ok: (val: U) => void,
+            fail: (error: F2) => void,
+        ) => void,
+    ): TypedPromise<U, F2> {
+        let resolve!: (val: U) => void;
+        let reject!: (error: F2) => void;
+        let progress!: (progress: Progress) => void;
+
+        const derived = new TypedPromise<U, F2>(
+            (ok, fail, _, report) => {
+                resolve = val => void ok(val);
+                reject = fail;
+                progress = report;
+            },
+            { scheduling: this.context.scheduling },
+        );
+
+        // subscribed once `derived` exists, the listeners can be called
+        // right away with the sync scheduling. They are skipped if it was
+        // already cancelled or timed out.
+        this.addOk(value => {
+            if (!derived.context.settled) onOk(value, resolve, reject, derived);
+        })
+            .addFail(error => {
+                if (!derived.context.settled) onFail(error, resolve, reject);
+            })
+            .progress(progress);
+
+        this.context.consumers++;
+
+        this.onAbort(reason => derived.cancel(reason));
+        derived.onAbort(reason => {
+            if (--this.context.consumers === 0 && !this.context.listened) {
+                this.cancel(reason);
+            }
+        });
+
+        return derived;
+    }
+
+    /**
+     * Calls `callback` synchronously with the reason when `cancel` is called.
+     *
+     * @private
+     * @param {(reason: any) => void} callback
+     */
+    private onAbort(callback: (reason: any) => void) {
+        this.context.abortController.signal.addEventListener(
+            'abort',
+            () => callback(this.context.cancelReason),
+            { once: true },
+        );
+    }
+
+    private resolve(value: OkType) {
+        // ignored if it was already settled or cancelled
+        if (this.context.settled) return;
+        this.context.settled = true;
 
         this.context.status = 'resolved';
         this.context.value = value;
         this.context.thenValue = value;
 
-        // call ok
-        try {
-            this.context.thenValue =
-                this.context.okCallback(this.context.value) || value;
-        } catch (error) {
-            this.context.thenError =
-                this.context.callCatchCallbackOrPropagate(error);
-        }
+        this.context.schedule(() => {
+            this.context.okCallbacks.forEach(this.context.callAsOk);
 
-        this.context.callAsFinally(this.context.finallyCallback);
+            this.context.finallyCallbacks.forEach(this.context.callAsFinally);
+        });
     }
 
     private reject(value: FailType) {
-        // if it was cancelled
-        if (this.context.status === 'cancelled') {
-            if (this.context.cancelledCallback)
-                this.context.cancelledCallback();
-
-            // await subscribed to fail through then(ok, fail)
-            if (this.context.isAwaited)
-                this.context.failCallback({ cancelled: true });
-            return;
-        }
+        // ignored if it was already settled or cancelled
+        if (this.context.settled) return;
+        this.context.settled = true;
 
         this.context.status = 'rejected';
         this.context.error = value;
 
-        if (this.context.failCallback) {
-            this.context.failCallback(this.context.error);
-        } else throw this.context.error;
+        this.context.schedule(() => {
+            this.context.failCallbacks.forEach(callback =>
+                this.context.callSafely(callback, this.context.error),
+            );
+
+            this.context.finallyCallbacks.forEach(this.context.callAsFinally);
+        });
+
+        // listeners added in this tick still handle it
+        if (TypedPromise.onUnhandledFailure) {
+            setTimeout(() => this.reportUnhandled(), 0);
+        }
+    }
+
+    /**
+     * Calls the progress listeners, unless the promise already settled.
+     *
+     * @private
+     * @param {Progress} progress
+     */
+    private report(progress: Progress) {
+        if (this.context.settled) return;
+
+        this.context.progressCallbacks.forEach(callback =>
+            this.context.callSafely(callback, progress),
+        );
+    }
+
+    /**
+     * Calls `onUnhandledFailure` if nobody handled the failure.
+     *
+     * @private
+     */
+    private reportUnhandled() {
+        if (this.context.handled) return;
+
+        TypedPromise.onUnhandledFailure?.({
+            error: this.context.error,
+            promise: this as TypedPromise<unknown, FailType>,
+            creationStack: this.context.creationStack,
+        });
+    }
+
+    /**
+     * Reports an error thrown by a listener to `onUnhandledFailure` by the
+     * next tick, unless a catch listener consumed it.
+     *
+     * @private
+     * @param {*} error
+     * @param {boolean} catchable a catch listener added in this tick still
+     * receives it
+     */
+    private reportThrown(error: any, catchable: boolean) {
+        setTimeout(() => {
+            if (catchable && this.context.catchCallbacks.length) return;
+
+            if (!TypedPromise.onUnhandledFailure) {
+                console.error(
+                    'Uncaught error in a TypedPromise listener',
+                    error,
+                );
+                return;
+            }
 
-        this.context.callAsFinally(this.context.finallyCallback);
+            TypedPromise.onUnhandledFailure({
+                error,
+                promise: this as TypedPromise<unknown, FailType>,
+                creationStack: this.context.creationStack,
+                thrown: true,
+            });
+        }, 0);
     }
 }
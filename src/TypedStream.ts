@@ -0,0 +1,141 @@
+import TypedPromise from './TypedPromise';
+import CancellationError from './CancellationError';
+
+/**
+ * Async iterable of typed items that can be cancelled, the typed
+ * counterpart of TypedPromise for responses that arrive in parts.
+ *
+ * The items are produced when it's iterated, by the producer given to the
+ * constructor, and it can only be iterated once. Iterating it throws the
+ * failure of the producer, `forEach` and `toArray` consume it with a
+ * TypedPromise so the failure is typed.
+ *
+ * Cancelling it aborts the signal given to the producer, the pending and
+ * following reads are rejected with a `CancellationError`. Breaking out of a
+ * `for await` loop cancels it.
+ *
+ * @example
+ * for await (const item of stream) {
+ *     if (item.last) break;
+ * }
+ *
+ * stream.forEach(item => console.log(item)).fail(problem => ...);
+ *
+ * @export
+ * @class TypedStream
+ * @typedef {TypedStream}
+ * @template T
+ * @template FailType
+ */
+export default class TypedStream<T, FailType> implements AsyncIterable<T> {
+    private controller = new AbortController();
+
+    private iterated = false;
+
+    /**
+     * @param {(signal: AbortSignal) => AsyncIterable<T>} producer called on
+     * the first read, the signal is aborted with a `CancellationError` if
+     * the stream is cancelled
+     */
+    constructor(private producer: (signal: AbortSignal) => AsyncIterable<T>) {}
+
+    /**
+     * Signal aborted when the stream is cancelled.
+     *
+     * @readonly
+     * @type {AbortSignal}
+     */
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /**
+     * Cancels the stream, it does nothing if it was already cancelled.
+     *
+     * @public
+     * @param {*} [reason] reason of the `CancellationError`
+     */
+    cancel(reason?: any): void {
+        if (this.controller.signal.aborted) return;
+
+        this.controller.abort(new CancellationError(reason));
+    }
+
+    /**
+     * Calls `callback` with each item, waiting for it if it returns a
+     * promise. Cancelling the returned promise cancels the stream.
+     *
+     * @public
+     * @param {(item: T) => any} callback
+     * @return {TypedPromise<void, FailType>} resolved when the stream ends
+     */
+    forEach(callback: (item: T) => any): TypedPromise<void, FailType> {
+        return this.consume(async () => {
+            for await (const item of this) await callback(item);
+        });
+    }
+
+    /**
+     * Reads all the items. Cancelling the returned promise cancels the
+     * stream.
+     *
+     * @public
+     * @return {TypedPromise<T[], FailType>}
+     */
+    toArray(): TypedPromise<T[], FailType> {
+        return this.consume(async () => {
+            const items: T[] = [];
+
+            for await (const item of this) items.push(item);
+
+            return items;
+        });
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+        if (this.iterated) {
+            throw new Error('A TypedStream can only be iterated once');
+        }
+
+        this.iterated = true;
+
+        const signal = this.controller.signal;
+        const iterator = this.producer(signal)[Symbol.asyncIterator]();
+
+        // rejects the pending read even if the producer ignores the signal
+        const cancelled = new Promise<never>((_, reject) => {
+            if (signal.aborted) return reject(signal.reason);
+
+            signal.addEventListener('abort', () => reject(signal.reason), {
+                once: true,
+            });
+        });
+        cancelled.catch(() => {});
+
+        return {
+            next: () => Promise.race([iterator.next(), cancelled]),
+            return: async (value?: any) => {
+                this.cancel();
+
+                await iterator.return?.().catch(() => {});
+
+                return { done: true, value };
+            },
+        };
+    }
+
+    /**
+     * Runs `read` in a TypedPromise that cancels the stream if it's
+     * cancelled, and that is cancelled if the stream is.
+     *
+     * @private
+     * @template U
+     * @param {() => Promise<U>} read
+     * @return {TypedPromise<U, FailType>}
+     */
+    private consume<U>(read: () => Promise<U>): TypedPromise<U, FailType> {
+        return TypedPromise.fromPromise<U, FailType>(read()).cancelled(reason =>
+            this.cancel(reason),
+        );
+    }
+}
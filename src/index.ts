@@ -1,3 +1,20 @@
 export * from './Http';
 
-export { default as TypedPromise } from './TypedPromise';
\ No newline at end of file
+export { default as TypedPromise } from './TypedPromise';
+export { default as TypedStream } from './TypedStream';
+export {
+    default as CancellationError,
+    isCancellation,
+} from './CancellationError';
+export { default as TimeoutError, isTimeout } from './TimeoutError';
+export type {
+    Scheduling,
+    TypedPromiseOptions,
+    OkTypes,
+    FailTypes,
+    SettledResult,
+    SettledResults,
+    Result,
+    UnhandledFailure,
+    Progress,
+} from './TypedPromise';
\ No newline at end of file
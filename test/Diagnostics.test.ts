@@ -0,0 +1,143 @@
+import Diagnostics, { DiagnosticEvent } from '../src/Http/Diagnostics';
+import HttpClient from '../src/Http/HttpClient';
+import ILogger from '../src/Http/ILogger';
+import IProblemJson from '../src/Http/IProblemJson';
+import processPromise from '../src/Http/ProcessPromise';
+
+const createLogger = (): jest.Mocked<ILogger> => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+});
+
+describe('Diagnostics', () => {
+    it('should only log the events of the enabled levels', () => {
+        const logger = createLogger();
+        const diagnostics = new Diagnostics(logger, 'info');
+
+        diagnostics.emit({ type: 'request:cancel', reason: 'unmounted' });
+        diagnostics.emit({
+            type: 'request:retry',
+            url: '/users',
+            attempt: 1,
+            delay: 100,
+            problem: { status: 503 },
+        });
+
+        expect(logger.debug).not.toHaveBeenCalled();
+        expect(logger.info).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not log anything when silent', () => {
+        const logger = createLogger();
+        const diagnostics = new Diagnostics(logger, 'silent');
+
+        diagnostics.emit({
+            type: 'response:parse-error',
+            url: '/users',
+            status: 200,
+            error: new SyntaxError(),
+        });
+
+        expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should send every event to the subscribers until removed', () => {
+        const diagnostics = new Diagnostics(createLogger(), 'silent');
+        const listener = jest.fn();
+
+        const unsubscribe = diagnostics.subscribe(listener);
+        diagnostics.emit({ type: 'request:cancel', reason: 'a' });
+        unsubscribe();
+        diagnostics.emit({ type: 'request:cancel', reason: 'b' });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith({
+            type: 'request:cancel',
+            reason: 'a',
+        });
+    });
+
+    it('should keep notifying if a listener throws', () => {
+        const logger = createLogger();
+        const diagnostics = new Diagnostics(logger, 'error');
+        const listener = jest.fn();
+
+        diagnostics.subscribe(() => {
+            throw new Error('oops');
+        });
+        diagnostics.subscribe(listener);
+        diagnostics.emit({ type: 'request:cancel', reason: 'a' });
+
+        expect(listener).toHaveBeenCalled();
+        expect(logger.error).toHaveBeenCalled();
+    });
+});
+
+describe('diagnostic events', () => {
+    const originalFetch = global.fetch;
+    let diagnostics: Diagnostics;
+    let events: DiagnosticEvent[];
+
+    beforeEach(() => {
+        diagnostics = new Diagnostics(createLogger(), 'silent');
+        events = [];
+        diagnostics.subscribe(event => events.push(event));
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should emit the start and end of the HttpClient requests', async () => {
+        global.fetch = jest.fn(async () => new Response(null, { status: 204 }));
+
+        const client = new HttpClient('http://localhost', { diagnostics });
+        await client.delete('/users/1');
+
+        expect(events).toEqual([
+            {
+                type: 'request:start',
+                method: 'DELETE',
+                url: 'http://localhost/users/1',
+            },
+            expect.objectContaining({
+                type: 'request:end',
+                method: 'DELETE',
+                status: 204,
+            }),
+        ]);
+    });
+
+    it('should emit the invalid json of processPromise', async () => {
+        await processPromise<string, IProblemJson>(
+            Promise.resolve(
+                new Response('{ oops', {
+                    headers: { 'Content-Type': 'application/json' },
+                }),
+            ),
+            { diagnostics },
+        );
+
+        expect(events).toEqual([
+            expect.objectContaining({
+                type: 'response:parse-error',
+                status: 200,
+            }),
+        ]);
+    });
+
+    it('should emit the cancellation of processPromise', () => {
+        const promise = processPromise<any, IProblemJson>(
+            () => new Promise<Response>(() => {}),
+            { diagnostics },
+        );
+
+        promise.cancel('unmounted');
+
+        expect(events).toEqual([
+            { type: 'request:cancel', reason: 'unmounted' },
+        ]);
+    });
+});
@@ -0,0 +1,148 @@
+import EventStream from '../src/Http/EventStream';
+import MockHttpClient from '../src/Http/MockHttpClient';
+import IProblemJson from '../src/Http/IProblemJson';
+
+type Events = {
+    message: { text: string };
+    typing: { user: string };
+};
+
+const eventResponse = (body: string) =>
+    new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+
+describe('EventStream', () => {
+    let client: MockHttpClient;
+
+    beforeEach(() => {
+        client = new MockHttpClient('http://api');
+    });
+
+    it('should yield the typed events with their data parsed', async () => {
+        client
+            .onGet('/chat')
+            .replyWith(() =>
+                eventResponse(
+                    'data: {"text":"hi"}\n\n' +
+                        'event: typing\ndata: {"user":"enzo"}\n\n',
+                ),
+            );
+
+        const events = new EventStream<Events>(client, '/chat', {
+            maxRetries: 0,
+        });
+        const received: string[] = [];
+
+        try {
+            for await (const e of events) {
+                if (e.event === 'message') received.push(e.data.text);
+                else received.push(e.data.user);
+            }
+        } catch (e) {
+            // the connection is closed and it can't reconnect
+        }
+
+        expect(received).toEqual(['hi', 'enzo']);
+        expect(client.calls('GET', '/chat')[0].headers.get('Accept')).toBe(
+            'text/event-stream',
+        );
+    });
+
+    it('should reconnect sending the last event id', async () => {
+        client
+            .onGet('/chat')
+            .once()
+            .replyWith(() =>
+                eventResponse('id: 1\ndata: {"text":"a"}\nretry: 1\n\n'),
+            );
+        client
+            .onGet('/chat')
+            .once()
+            .replyWith(() => eventResponse('id: 2\ndata: {"text":"b"}\n\n'));
+        client.onGet('/chat').reply(204);
+
+        const events = new EventStream<Events>(client, '/chat');
+
+        const received = await events.toArray();
+
+        expect(received.map(e => e.data)).toEqual([
+            { text: 'a' },
+            { text: 'b' },
+        ]);
+        expect(
+            client
+                .calls('GET', '/chat')
+                .map(r => r.headers.get('Last-Event-ID')),
+        ).toEqual([null, '1', '2']);
+        expect(events.lastEventId).toBe('2');
+    });
+
+    it('should fail with the problem of a failed response', async () => {
+        client.onGet('/chat').replyProblem({ status: 403, title: 'Forbidden' });
+
+        const result = await new EventStream<Events, IProblemJson>(
+            client,
+            '/chat',
+        )
+            .toArray()
+            .toResult();
+
+        expect(result).toEqual({
+            ok: false,
+            cancelled: false,
+            error: { status: 403, title: 'Forbidden' },
+        });
+    });
+
+    it('should fail after maxRetries reconnections in a row', async () => {
+        client.onGet('/chat').networkError();
+
+        const result = await new EventStream<Events>(client, '/chat', {
+            retryDelay: 1,
+            maxRetries: 2,
+        })
+            .toArray()
+            .toResult();
+
+        expect(client.calls('GET', '/chat')).toHaveLength(3);
+        expect(!result.ok && !result.cancelled && result.error.status).toBe(0);
+    });
+
+    it('should only yield the given events', async () => {
+        client
+            .onGet('/chat')
+            .once()
+            .replyWith(() =>
+                eventResponse(
+                    'event: typing\ndata: {"user":"enzo"}\n\n' +
+                        'event: other\ndata: 1\n\n',
+                ),
+            );
+        client.onGet('/chat').reply(204);
+
+        const received = await new EventStream<Events>(
+            client,
+            '/chat',
+            { retryDelay: 1 },
+            ['typing'],
+        ).toArray();
+
+        expect(received.map(e => e.event)).toEqual(['typing']);
+    });
+
+    it('should stop reconnecting when cancelled', async () => {
+        client.onGet('/chat').replyWith(() => eventResponse('data: 1\n\n'));
+
+        const events = new EventStream<{ message: number }>(client, '/chat', {
+            retryDelay: 1,
+        });
+
+        for await (const e of events) {
+            expect(e.data).toBe(1);
+            if (client.requests.length === 2) break;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(client.requests).toHaveLength(2);
+    });
+});
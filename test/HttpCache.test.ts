@@ -0,0 +1,118 @@
+import HttpCache from '../src/Http/HttpCache';
+import IProblemJson from '../src/Http/IProblemJson';
+import MockHttpClient from '../src/Http/MockHttpClient';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('HttpCache', () => {
+    let client: MockHttpClient;
+
+    beforeEach(() => {
+        client = new MockHttpClient('http://api');
+    });
+
+    it('should share the request of identical GETs in flight', async () => {
+        client.onGet('/users/1').delay(10).replyJson({ id: 1 });
+        const cache = new HttpCache(client);
+
+        const [a, b] = await Promise.all([
+            cache.get<{ id: number }, IProblemJson>('/users/1'),
+            cache.get<{ id: number }, IProblemJson>('/users/1'),
+        ]);
+
+        expect(a).toEqual({ id: 1 });
+        expect(b).toEqual({ id: 1 });
+        client.assertCalled('GET', '/users/1', 1);
+    });
+
+    it('should let the callers cancel independently', async () => {
+        client.onGet('/users/1').delay(10).replyJson({ id: 1 });
+        const cache = new HttpCache(client);
+
+        const cancelled = cache.get<any, IProblemJson>('/users/1');
+        const kept = cache.get<any, IProblemJson>('/users/1');
+
+        cancelled.cancel('unmounted');
+
+        expect(await kept).toEqual({ id: 1 });
+        client.assertCalled('GET', '/users/1', 1);
+    });
+
+    it('should abort the request when every caller cancels', async () => {
+        client.onGet('/users/1').delay(10).replyJson({ id: 1 });
+        const get = jest.spyOn(client, 'get');
+        const cache = new HttpCache(client);
+
+        const first = cache.get<any, IProblemJson>('/users/1');
+        const second = cache.get<any, IProblemJson>('/users/1');
+        await sleep(0);
+
+        first.cancel();
+        second.cancel();
+
+        expect(get.mock.calls[0][2]?.signal?.aborted).toBe(true);
+        expect(await cache.get('/users/1')).toEqual({ id: 1 });
+        expect(get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reuse the response until the ttl expires', async () => {
+        client.onGet('/users', { page: 1 }).replyJson([{ id: 1 }]);
+        const cache = new HttpCache(client, { ttl: 1000 });
+
+        await cache.get('/users', { page: 1 });
+        const users = await cache.get('/users', { page: 1 });
+
+        expect(users).toEqual([{ id: 1 }]);
+        client.assertCalled('GET', '/users', 1);
+    });
+
+    it('should revalidate with the ETag and use the cached body on 304', async () => {
+        client.onGet('/users/1').once().replyJson({ id: 1 }, 200, {
+            ETag: '"v1"',
+        });
+        client.onGet('/users/1').reply(304);
+        const cache = new HttpCache(client);
+
+        await cache.get('/users/1');
+        const user = await cache.get('/users/1');
+
+        expect(user).toEqual({ id: 1 });
+        expect(client.requests[1].headers.get('If-None-Match')).toBe('"v1"');
+    });
+
+    it('should use the stale response while it revalidates', async () => {
+        client.onGet('/users/1').once().replyJson({ name: 'old' });
+        client.onGet('/users/1').replyJson({ name: 'new' });
+        const cache = new HttpCache(client, {
+            ttl: 20,
+            staleWhileRevalidate: 10000,
+        });
+
+        await cache.get('/users/1');
+        await sleep(25);
+
+        expect(await cache.get('/users/1')).toEqual({ name: 'old' });
+        await sleep(5);
+        expect(await cache.get('/users/1')).toEqual({ name: 'new' });
+        client.assertCalled('GET', '/users/1', 2);
+    });
+
+    it('should remove the responses by key and prefix', async () => {
+        client.onGet(/.*/).replyJson({});
+        const cache = new HttpCache(client, { ttl: 1000 });
+
+        await cache.get('/users/1');
+        await cache.get('/users/2');
+        await cache.get('/orders/1');
+
+        cache.invalidate('/users/1');
+        await cache.get('/users/1');
+        client.assertCalled('GET', '/users/1', 2);
+
+        cache.invalidatePrefix('/users');
+        await cache.get('/users/2');
+        await cache.get('/orders/1');
+        client.assertCalled('GET', '/users/2', 2);
+        client.assertCalled('GET', '/orders/1', 1);
+    });
+});
@@ -0,0 +1,330 @@
+import HttpClient from '../src/Http/HttpClient';
+import { jsonResponse } from './responses';
+
+describe('HttpClient interceptors', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should let the request interceptors rewrite the request', async () => {
+        const fetchMock = jest.fn(() => Promise.resolve(jsonResponse({})));
+        global.fetch = fetchMock;
+
+        const client = new HttpClient('http://localhost');
+        const calls: string[] = [];
+
+        client.addRequestInterceptor(request => {
+            calls.push('first');
+            request.headers.set('Authorization', 'Bearer token');
+        });
+
+        client.addRequestInterceptor(request => {
+            calls.push('second');
+
+            return { ...request, url: request.url.replace('v1', 'v2') };
+        });
+
+        await client.post('/v1/users', { name: 'enzo' });
+
+        const [url, init] = fetchMock.mock.calls[0] as any[];
+
+        expect(calls).toEqual(['first', 'second']);
+        expect(url).toBe('http://localhost/v2/users');
+        expect(init.method).toBe('POST');
+        expect(init.body).toBe('{"name":"enzo"}');
+        expect(init.headers.get('Authorization')).toBe('Bearer token');
+        expect(init.headers.get('Content-Type')).toBe('application/json');
+    });
+
+    it('should skip the request if an interceptor returns a response', async () => {
+        const fetchMock = jest.fn();
+        global.fetch = fetchMock;
+
+        const client = new HttpClient('http://localhost');
+
+        client.addRequestInterceptor(() => jsonResponse({ cached: true }));
+
+        const response = await client.get('/users/1');
+
+        expect(await response.json()).toEqual({ cached: true });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should transform the response in order', async () => {
+        global.fetch = jest.fn(() => Promise.resolve(jsonResponse({})));
+
+        const client = new HttpClient('http://localhost');
+
+        client.addResponseInterceptor(
+            response => new Response('first', { status: response.status }),
+        );
+        client.addResponseInterceptor(
+            async response => new Response((await response.text()) + ' second'),
+        );
+
+        const response = await client.get('/users/1');
+
+        expect(await response.text()).toBe('first second');
+    });
+
+    it('should refresh the token and replay the request once', async () => {
+        let token = 'expired';
+
+        const fetchMock = jest.fn((_: any, init: any) =>
+            Promise.resolve(
+                init.headers.get('Authorization') === 'Bearer fresh'
+                    ? jsonResponse({ id: 1 })
+                    : jsonResponse({}, 401),
+            ),
+        );
+        global.fetch = fetchMock;
+
+        const client = new HttpClient('http://localhost');
+
+        client.addRequestInterceptor(request => {
+            request.headers.set('Authorization', 'Bearer ' + token);
+        });
+
+        client.addResponseInterceptor(async (response, request, replay) => {
+            if (response.status !== 401) return response;
+
+            token = 'fresh';
+
+            return replay(request);
+        });
+
+        const response = await client.get('/users/1');
+
+        expect(response.status).toBe(200);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove an interceptor', async () => {
+        global.fetch = jest.fn(() => Promise.resolve(jsonResponse({})));
+
+        const client = new HttpClient('http://localhost');
+        const interceptor = jest.fn();
+
+        const remove = client.addRequestInterceptor(interceptor);
+        remove();
+
+        await client.get('/users/1');
+
+        expect(interceptor).not.toHaveBeenCalled();
+    });
+});
+
+describe('HttpClient verbs', () => {
+    const originalFetch = global.fetch;
+
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+        fetchMock = jest.fn(() => Promise.resolve(new Response(null)));
+        global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    const lastRequest = () => {
+        const [url, init] = fetchMock.mock.calls[0] as any[];
+
+        return { url, init };
+    };
+
+    it.each(['get', 'delete', 'head', 'options'] as const)(
+        'should make a %s request with query parameters',
+        async verb => {
+            const client = new HttpClient('http://localhost');
+
+            await client[verb]('/users', { page: 2 }, { headers: { a: '1' } });
+
+            const { url, init } = lastRequest();
+
+            expect(url).toBe('http://localhost/users?page=2');
+            expect(init.method).toBe(verb.toUpperCase());
+            expect(init.body).toBeUndefined();
+            expect(init.headers.get('a')).toBe('1');
+        },
+    );
+
+    it.each(['post', 'put', 'patch'] as const)(
+        'should make a %s request with a json body',
+        async verb => {
+            const client = new HttpClient('http://localhost');
+
+            await client[verb]('/users', { name: 'enzo' }, { query: { a: 1 } });
+
+            const { url, init } = lastRequest();
+
+            expect(url).toBe('http://localhost/users?a=1');
+            expect(init.method).toBe(verb.toUpperCase());
+            expect(init.body).toBe('{"name":"enzo"}');
+            expect(init.headers.get('Content-Type')).toBe('application/json');
+        },
+    );
+
+    it('should not append an empty query', async () => {
+        const client = new HttpClient('http://localhost');
+
+        await client.get('/users', { page: undefined });
+
+        expect(lastRequest().url).toBe('http://localhost/users');
+    });
+
+    it('should encode the query with the client options', async () => {
+        const client = new HttpClient('http://localhost', {
+            query: { arrayFormat: 'comma' },
+        });
+
+        await client.delete('/users', { id: [1, 2] });
+
+        expect(lastRequest().url).toBe('http://localhost/users?id=1,2');
+    });
+
+    it('should accept the deprecated delete options', async () => {
+        const client = new HttpClient('http://localhost');
+
+        await client.delete('/users', {
+            query: { id: 1 },
+            init: { headers: { 'X-Reason': 'spam' } },
+        });
+
+        const { url, init } = lastRequest();
+
+        expect(url).toBe('http://localhost/users?id=1');
+        expect(init.headers.get('X-Reason')).toBe('spam');
+    });
+
+    it('should accept the deprecated put query argument', async () => {
+        const client = new HttpClient('http://localhost');
+
+        await client.put('/users/1', { name: 'enzo' }, { notify: true }, {});
+        await client.put('/users/1', { name: 'enzo' }, { notify: false });
+        await client.put('/users/1', { name: 'enzo' }, { timeout: 100 });
+
+        const [[first, init], [second], [third]] = fetchMock.mock
+            .calls as any[];
+
+        expect(first).toBe('http://localhost/users/1?notify=true');
+        expect(init.body).toBe('{"name":"enzo"}');
+        expect(second).toBe('http://localhost/users/1?notify=false');
+        expect(third).toBe('http://localhost/users/1');
+    });
+
+    it('should merge the request params over init', async () => {
+        const client = new HttpClient('http://localhost');
+
+        await client.request({
+            method: 'POST',
+            path: '/users',
+            query: { b: 2 },
+            body: {},
+            headers: { 'Content-Type': 'application/vnd.api+json' },
+            init: { query: { a: 1 }, headers: { Accept: 'text/plain' } },
+        });
+
+        const { url, init } = lastRequest();
+
+        expect(url).toBe('http://localhost/users?a=1&b=2');
+        expect(init.headers.get('Accept')).toBe('text/plain');
+        expect(init.headers.get('Content-Type')).toBe(
+            'application/vnd.api+json',
+        );
+    });
+});
+
+describe('HttpClient bodies', () => {
+    const originalFetch = global.fetch;
+
+    let fetchMock: jest.Mock;
+    let client: HttpClient;
+
+    beforeEach(() => {
+        fetchMock = jest.fn(() => Promise.resolve(new Response(null)));
+        global.fetch = fetchMock;
+        client = new HttpClient('http://localhost');
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    const lastInit = () => (fetchMock.mock.calls[0] as any[])[1];
+
+    it('should let fetch set the multipart boundary', async () => {
+        const form = new FormData();
+        form.append('name', 'enzo');
+
+        await client.post('/users', form);
+
+        expect(lastInit().body).toBe(form);
+        expect(lastInit().headers.has('Content-Type')).toBe(false);
+    });
+
+    it('should send url encoded bodies', async () => {
+        await client.post('/login', new URLSearchParams({ user: 'enzo' }));
+
+        expect(String(lastInit().body)).toBe('user=enzo');
+        expect(lastInit().headers.get('Content-Type')).toBe(
+            'application/x-www-form-urlencoded;charset=UTF-8',
+        );
+    });
+
+    it('should convert a plain object with an explicit body type', async () => {
+        await client.post('/login', { user: 'enzo' }, { bodyType: 'form' });
+
+        expect(String(lastInit().body)).toBe('user=enzo');
+    });
+
+    it('should send blobs with their type', async () => {
+        const blob = new Blob(['a,b'], { type: 'text/csv' });
+
+        await client.put('/export', blob);
+
+        expect(lastInit().body).toBe(blob);
+        expect(lastInit().headers.get('Content-Type')).toBe('text/csv');
+    });
+
+    it('should send strings as text', async () => {
+        await client.post('/notes', 'hello');
+
+        expect(lastInit().body).toBe('hello');
+        expect(lastInit().headers.get('Content-Type')).toBe(
+            'text/plain;charset=UTF-8',
+        );
+    });
+
+    it('should send streams as half duplex', async () => {
+        const stream = new ReadableStream();
+
+        await client.post('/upload', stream);
+
+        expect(lastInit().body).toBe(stream);
+        expect(lastInit().duplex).toBe('half');
+    });
+
+    it('should use a registered serializer', async () => {
+        client.registerSerializer('csv', {
+            serialize: (rows: string[][]) => ({
+                body: rows.map(row => row.join(',')).join('\n'),
+                contentType: 'text/csv',
+            }),
+        });
+
+        await client.post('/export', [['a', 'b']], { bodyType: 'csv' });
+
+        expect(lastInit().body).toBe('a,b');
+        expect(lastInit().headers.get('Content-Type')).toBe('text/csv');
+    });
+
+    it('should reject if there is no serializer for the body type', async () => {
+        await expect(
+            client.post('/export', {}, { bodyType: 'msgpack' }),
+        ).rejects.toThrow('msgpack');
+    });
+});
@@ -0,0 +1,113 @@
+import MockHttpClient from '../src/Http/MockHttpClient';
+import IProblemJson from '../src/Http/IProblemJson';
+import processPromise from '../src/Http/ProcessPromise';
+
+describe('MockHttpClient', () => {
+    let client: MockHttpClient;
+
+    beforeEach(() => {
+        client = new MockHttpClient('http://api');
+    });
+
+    it('should resolve processPromise with the json reply', async () => {
+        client.onGet('/users/:id').replyJson({ id: 1, name: 'enzo' });
+
+        const user = await processPromise<{ name: string }, IProblemJson>(
+            client.get('/users/1'),
+        );
+
+        expect(user).toEqual({ id: 1, name: 'enzo' });
+    });
+
+    it('should fail processPromise with the problem reply', async () => {
+        client.onPost('/users').replyProblem({ status: 400, title: 'Invalid' });
+
+        try {
+            await processPromise<any, IProblemJson>(
+                client.post('/users', { name: '' }),
+            );
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toEqual({ status: 400, title: 'Invalid' });
+        }
+    });
+
+    it('should fail processPromise with a network problem', async () => {
+        client.onGet('/health').networkError();
+
+        try {
+            await processPromise<any, IProblemJson>(client.get('/health'));
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toMatchObject({ status: 0 });
+        }
+    });
+
+    it('should match the method, path parameters and query', async () => {
+        client
+            .onGet('/users', { page: 2 })
+            .replyWith(() => new Response('page 2'));
+        client
+            .onGet('/users/:id')
+            .replyWith((_, params) => new Response('user ' + params.id));
+
+        const page = await client.get('/users', { page: 2 });
+        const user = await client.get('/users/7');
+
+        expect(await page.text()).toBe('page 2');
+        expect(await user.text()).toBe('user 7');
+        await expect(client.get('/users', { page: 3 })).rejects.toThrow(
+            'No mock route matches GET http://api/users?page=3',
+        );
+    });
+
+    it('should skip the routes that already replied', async () => {
+        client.onGet('/status').once().reply(503);
+        client.onGet('/status').reply(200);
+
+        expect((await client.get('/status')).status).toBe(503);
+        expect((await client.get('/status')).status).toBe(200);
+    });
+
+    it('should record the requests', async () => {
+        client.onPost('/users').reply(201);
+
+        await client.post('/users', { name: 'enzo' });
+
+        const [request] = client.calls('POST', '/users');
+
+        expect(JSON.parse(request.body as string)).toEqual({ name: 'enzo' });
+        expect(request.headers.get('Content-Type')).toBe('application/json');
+        expect(() => client.assertCalled('POST', '/users', 1)).not.toThrow();
+        expect(() => client.assertCalled('GET', '/users')).toThrow();
+    });
+
+    it('should abort the simulated latency on cancel', done => {
+        client.onGet('/slow').delay(1000).replyJson({});
+
+        const promise = processPromise<any, IProblemJson>(signal =>
+            client.get('/slow', {}, { signal }),
+        );
+
+        promise.cancelled(reason => {
+            expect(reason).toBe('unmounted');
+            done();
+        });
+
+        promise.cancel('unmounted');
+    });
+
+    it('should replace the global fetch', async () => {
+        const originalFetch = global.fetch;
+        global.fetch = client.fetch;
+        client.onGet('/ping').reply(204);
+
+        try {
+            const response = await fetch('http://api/ping');
+
+            expect(response.status).toBe(204);
+        } finally {
+            global.fetch = originalFetch;
+        }
+    });
+});
@@ -0,0 +1,350 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import generateClient from '../src/OpenApi/GenerateClient';
+import { parseDocument } from '../src/OpenApi/LoadDocument';
+import { parseArgs } from '../src/OpenApi/cli';
+import { OpenApiDocument } from '../src/OpenApi/OpenApiDocument';
+import MockHttpClient from '../src/Http/MockHttpClient';
+import * as library from '../src';
+
+const document: OpenApiDocument = {
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: {
+        '/pets': {
+            get: {
+                operationId: 'list-pets',
+                parameters: [
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer' },
+                    },
+                    {
+                        name: 'tag-name',
+                        in: 'query',
+                        schema: { type: 'array', items: { type: 'string' } },
+                    },
+                ],
+                responses: {
+                    '200': {
+                        description: 'The pets',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'array',
+                                    items: { $ref: '#/components/schemas/Pet' },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                operationId: 'createPet',
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: { $ref: '#/components/schemas/NewPet' },
+                        },
+                    },
+                },
+                responses: {
+                    '201': {
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Pet' },
+                            },
+                        },
+                    },
+                    '422': { $ref: '#/components/responses/Invalid' },
+                },
+            },
+        },
+        '/pets/{petId}': {
+            parameters: [
+                {
+                    name: 'petId',
+                    in: 'path',
+                    required: true,
+                    description: 'Id of the pet',
+                    schema: { type: 'integer' },
+                },
+            ],
+            get: {
+                summary: 'Gets a pet',
+                responses: {
+                    '200': {
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Pet' },
+                            },
+                        },
+                    },
+                    '404': {
+                        content: {
+                            'application/problem+json': {
+                                schema: {
+                                    $ref: '#/components/schemas/NotFound',
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            delete: {
+                deprecated: true,
+                responses: { '204': { description: 'Deleted' } },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            Pet: {
+                type: 'object',
+                required: ['id', 'name'],
+                properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string', description: 'Name of the pet' },
+                    status: {
+                        type: 'string',
+                        enum: ['available', 'sold'],
+                        nullable: true,
+                    },
+                    'owner-id': { type: 'string' },
+                },
+            },
+            NewPet: {
+                allOf: [
+                    { $ref: '#/components/schemas/Pet' },
+                    {
+                        type: 'object',
+                        properties: { photo: { type: 'string' } },
+                    },
+                ],
+            },
+            NotFound: {
+                type: 'object',
+                required: ['status'],
+                properties: {
+                    status: { type: 'integer' },
+                    resource: { type: 'string' },
+                },
+            },
+        },
+        responses: {
+            Invalid: {
+                content: {
+                    'application/problem+json': {
+                        schema: {
+                            type: 'object',
+                            properties: {
+                                errors: {
+                                    type: 'object',
+                                    additionalProperties: {
+                                        type: 'array',
+                                        items: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    },
+};
+
+/**
+ * Type errors of the generated source, importing the library from src.
+ */
+const typeErrors = (source: string) => {
+    const file = path.join(__dirname, 'generated-client.ts');
+    const options: ts.CompilerOptions = {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2017,
+        lib: ['lib.es2018.d.ts', 'lib.dom.d.ts'],
+        module: ts.ModuleKind.CommonJS,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        types: [],
+    };
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    const fileExists = host.fileExists;
+
+    host.fileExists = name => name === file || fileExists(name);
+    host.getSourceFile = (name, ...rest) =>
+        name === file
+            ? ts.createSourceFile(name, source, ts.ScriptTarget.ES2017)
+            : getSourceFile(name, ...rest);
+
+    const program = ts.createProgram([file], options, host);
+
+    return ts
+        .getPreEmitDiagnostics(program)
+        .map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+};
+
+/**
+ * Runs the generated source, importing the library from src.
+ */
+const load = (source: string) => {
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2017,
+        },
+    });
+    const module = { exports: {} as any };
+
+    new Function('require', 'module', 'exports', outputText)(
+        () => library,
+        module,
+        module.exports,
+    );
+
+    return module.exports;
+};
+
+describe('generateClient', () => {
+    const source = generateClient(document, { importFrom: '../src' });
+
+    it('should declare the schemas', () => {
+        expect(source).toContain(
+            'export interface Pet {\n' +
+                '    id: number;\n' +
+                '    /** Name of the pet */\n' +
+                '    name: string;\n' +
+                "    status?: 'available' | 'sold' | null;\n" +
+                "    'owner-id'?: string;\n" +
+                '}',
+        );
+        expect(source).toContain(
+            'export type NewPet = Pet & {\n    photo?: string;\n};',
+        );
+    });
+
+    it('should intersect the problems with IProblemJson', () => {
+        expect(source).toContain('export type NotFound = IProblemJson & {');
+        expect(source).toContain(
+            'export type CreatePetProblem422 = IProblemJson & {\n' +
+                '    errors?: Record<string, string[]>;\n' +
+                '};',
+        );
+        expect(source).toContain(
+            '): TypedPromise<Pet, CreatePetProblem422 | IProblemJson> {',
+        );
+        expect(source).toContain(
+            'getPetsByPetId(\n' +
+                '        params: {\n' +
+                '            /** Id of the pet */\n' +
+                '            petId: number;\n' +
+                '        },\n' +
+                '        init: IRequestOptions = {},\n' +
+                '    ): TypedPromise<Pet, NotFound | IProblemJson> {',
+        );
+    });
+
+    it('should type the operations', () => {
+        expect(source).toContain('listPets(');
+        expect(source).toContain('): TypedPromise<Pet[], IProblemJson> {');
+        expect(source).toContain('body: NewPet,');
+        expect(source).toContain(
+            "query: { limit: params.limit, 'tag-name': params['tag-name'] },",
+        );
+        expect(source).toContain('@deprecated');
+        expect(source).toContain('): TypedPromise<void, IProblemJson> {');
+    });
+
+    it('should generate code that type checks', () => {
+        expect(typeErrors(source)).toEqual([]);
+    });
+
+    it('should make the requests with the client', async () => {
+        const client = new MockHttpClient('http://api');
+        const api = new (load(source).ApiClient)(client);
+
+        client.onGet('/pets/:id').replyJson({ id: 7, name: 'Rex' });
+        client.onPost('/pets').replyJson({ id: 8, name: 'Fido' }, 201);
+        client.onGet('/pets').replyJson([]);
+
+        expect(await api.getPetsByPetId({ petId: 7 })).toEqual({
+            id: 7,
+            name: 'Rex',
+        });
+        expect(await api.createPet({ name: 'Fido' })).toEqual({
+            id: 8,
+            name: 'Fido',
+        });
+        await api.listPets({ limit: 2, 'tag-name': ['a', 'b'] });
+
+        expect(client.calls('POST', '/pets')[0].body).toBe('{"name":"Fido"}');
+        expect(client.calls('GET', '/pets')[0].query.get('limit')).toBe('2');
+    });
+
+    it('should cancel the requests with the signal of the init', async () => {
+        const client = new MockHttpClient('http://api');
+        const api = new (load(source).ApiClient)(client);
+        const controller = new AbortController();
+
+        client.onGet('/pets/:id').delay(1000).replyJson({ id: 7 });
+
+        const result = api
+            .getPetsByPetId({ petId: 7 }, { signal: controller.signal })
+            .toResult();
+
+        controller.abort('unmounted');
+
+        expect(await result).toEqual({
+            ok: false,
+            cancelled: true,
+            reason: 'unmounted',
+        });
+    });
+
+    it('should reject other documents', () => {
+        expect(() => generateClient({ swagger: '2.0' } as any)).toThrow(
+            'Only OpenAPI 3 documents are supported',
+        );
+    });
+});
+
+describe('parseDocument', () => {
+    it('should parse yaml documents', () => {
+        const parsed = parseDocument(
+            "openapi: 3.1.0\ninfo:\n  title: Pets\n  version: '1'\n",
+            'pets.yaml',
+        );
+
+        expect(parsed).toEqual({
+            openapi: '3.1.0',
+            info: { title: 'Pets', version: '1' },
+        });
+    });
+
+    it('should parse json documents', () => {
+        expect(parseDocument('{"openapi":"3.0.0"}')).toEqual({
+            openapi: '3.0.0',
+        });
+    });
+});
+
+describe('parseArgs', () => {
+    it('should read the input and the options', () => {
+        expect(
+            parseArgs(['api.yaml', '-o', 'client.ts', '--name', 'Pets']),
+        ).toEqual({
+            input: 'api.yaml',
+            output: 'client.ts',
+            help: false,
+            options: { clientName: 'Pets' },
+        });
+    });
+
+    it('should throw on unknown arguments', () => {
+        expect(() => parseArgs(['--nope'])).toThrow('Unexpected argument');
+    });
+});
@@ -0,0 +1,89 @@
+import ProblemRegistry, {
+    match,
+    problemType,
+} from '../src/Http/ProblemRegistry';
+import IProblemJson from '../src/Http/IProblemJson';
+import { problemResponse } from './responses';
+
+interface OutOfCredit extends IProblemJson {
+    balance: number;
+}
+
+const problems = new ProblemRegistry({
+    'out-of-credit': problemType<OutOfCredit>('/problems/out-of-credit'),
+    notFound: problemType(404),
+});
+
+describe('ProblemRegistry', () => {
+    it('should tag the problem matching the type uri', () => {
+        const problem = problems.resolve({
+            type: 'https://example.com/problems/out-of-credit',
+            status: 403,
+        });
+
+        expect(problem.kind).toBe('out-of-credit');
+    });
+
+    it('should tag the problem matching the status', () => {
+        expect(problems.resolve({ status: 404 }).kind).toBe('notFound');
+    });
+
+    it('should leave the unknown problems without kind', () => {
+        expect(problems.resolve({ type: '/other', status: 500 }).kind).toBe(
+            undefined,
+        );
+    });
+
+    it('should fail with the resolved problem', async () => {
+        const handled = await new Promise(resolve => {
+            problems
+                .process<{ id: number }>(
+                    Promise.resolve(
+                        problemResponse(
+                            { type: '/problems/out-of-credit', balance: 30 },
+                            403,
+                        ),
+                    ),
+                )
+                .fail(
+                    match({
+                        'out-of-credit': problem => resolve(problem.balance),
+                        notFound: () => resolve('not found'),
+                        _: problem => resolve(problem.status),
+                    }),
+                );
+        });
+
+        expect(handled).toBe(30);
+    });
+});
+
+describe('match', () => {
+    type Problem = ReturnType<typeof problems.resolve>;
+
+    const describeProblem = match<Problem, string>({
+        'out-of-credit': problem => `balance ${problem.balance}`,
+        notFound: () => 'not found',
+        _: problem => `status ${problem.status}`,
+    });
+
+    it('should call the handler of the kind', () => {
+        expect(describeProblem(problems.resolve({ status: 404 }))).toBe(
+            'not found',
+        );
+    });
+
+    it('should call the fallback for unknown problems', () => {
+        expect(describeProblem(problems.resolve({ status: 0 }))).toBe(
+            'status 0',
+        );
+    });
+
+    it('should require a handler for each kind', () => {
+        // @ts-expect-error notFound is not handled
+        match<Problem, string>({
+            'out-of-credit': () => '',
+            _: () => '',
+        });
+    });
+});
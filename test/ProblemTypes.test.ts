@@ -0,0 +1,129 @@
+import Diagnostics, { DiagnosticEvent } from '../src/Http/Diagnostics';
+import ProblemError, { isProblemError } from '../src/Http/ProblemError';
+import { normalizeProblem, readProblem } from '../src/Http/ProblemTypes';
+import { problemResponse } from './responses';
+
+describe('readProblem', () => {
+    let diagnostics: Diagnostics;
+    let events: DiagnosticEvent[];
+
+    beforeEach(() => {
+        diagnostics = new Diagnostics(console, 'silent');
+        events = [];
+        diagnostics.subscribe(event => events.push(event));
+    });
+
+    it('should ignore the media type parameters and case', async () => {
+        const problem = await readProblem(
+            problemResponse(
+                { title: 'Bad request', instance: '/orders/1' },
+                400,
+                'Application/Problem+JSON; charset=utf-8',
+            ),
+            diagnostics,
+        );
+
+        expect(problem).toEqual({
+            title: 'Bad request',
+            instance: '/orders/1',
+            status: 400,
+        });
+        expect(events).toEqual([]);
+    });
+
+    it('should read json bodies but emit that they are not problems', async () => {
+        const problem = await readProblem(
+            problemResponse({ title: 'Bad request' }, 400, 'application/json'),
+            diagnostics,
+        );
+
+        expect(problem).toEqual({ title: 'Bad request', status: 400 });
+        expect(events).toEqual([
+            {
+                type: 'response:not-problem',
+                url: '',
+                status: 400,
+                contentType: 'application/json',
+            },
+        ]);
+    });
+
+    it('should only have the status if it is not json', async () => {
+        const problem = await readProblem(
+            new Response('Bad gateway', { status: 502 }),
+        );
+
+        expect(problem).toEqual({ status: 502 });
+    });
+});
+
+describe('normalizeProblem', () => {
+    it('should keep the extension members', () => {
+        expect(normalizeProblem({ traceId: 'abc' }, 500)).toEqual({
+            traceId: 'abc',
+            status: 500,
+        });
+    });
+
+    it('should normalize the ASP.NET errors map', () => {
+        const problem = normalizeProblem(
+            { errors: { Name: ['Required', 'Too short'], Age: 'Invalid' } },
+            400,
+        );
+
+        expect(problem.fieldErrors).toEqual({
+            Name: ['Required', 'Too short'],
+            Age: ['Invalid'],
+        });
+    });
+
+    it('should normalize the RFC 9457 errors array', () => {
+        const problem = normalizeProblem(
+            {
+                errors: [
+                    { detail: 'must be positive', pointer: '#/items/0/qty' },
+                ],
+            },
+            422,
+        );
+
+        expect(problem.fieldErrors).toEqual({
+            'items.0.qty': ['must be positive'],
+        });
+    });
+
+    it('should merge invalid-params and invalidParams', () => {
+        const problem = normalizeProblem(
+            {
+                'invalid-params': [{ name: 'age', reason: 'too young' }],
+                invalidParams: { age: { code: 'min', reason: 'below 18' } },
+            },
+            400,
+        );
+
+        expect(problem.fieldErrors).toEqual({
+            age: ['too young', 'below 18'],
+        });
+    });
+});
+
+describe('ProblemError', () => {
+    it('should carry the problem and the response metadata', async () => {
+        const response = problemResponse(
+            { title: 'Not found', detail: 'User 1 not found' },
+            404,
+            'application/problem+json',
+        );
+
+        const error = await ProblemError.fromResponse(response);
+
+        expect(isProblemError(error)).toBe(true);
+        expect(error.message).toBe('User 1 not found');
+        expect(error.status).toBe(404);
+        expect(error.headers.get('Content-Type')).toBe(
+            'application/problem+json',
+        );
+        expect(error.problem.title).toBe('Not found');
+        expect(error.response).toBe(response);
+    });
+});
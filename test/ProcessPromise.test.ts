@@ -0,0 +1,445 @@
+import processPromise, {
+    processPromiseAsArrayBuffer,
+    processPromiseWithMeta,
+} from '../src/Http/ProcessPromise';
+import HttpClient from '../src/Http/HttpClient';
+import MockHttpClient from '../src/Http/MockHttpClient';
+import IProblemJson from '../src/Http/IProblemJson';
+import {
+    TIMEOUT_PROBLEM_TYPE,
+    VALIDATION_PROBLEM_TYPE,
+} from '../src/Http/ProblemTypes';
+import { StandardSchema } from '../src/Http/Validation';
+import { jsonResponse } from './responses';
+
+/**
+ * fetch stand-in that responds after `ms`, rejecting with an
+ * AbortError if the request signal is aborted before.
+ */
+const delayedFetch = (response: () => Response, ms: number) =>
+    jest.fn(
+        (_: RequestInfo | URL, init?: RequestInit) =>
+            new Promise<Response>((resolve, reject) => {
+                const timer = setTimeout(() => resolve(response()), ms);
+
+                init?.signal?.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    reject(new DOMException('Aborted', 'AbortError'));
+                });
+            }),
+    );
+
+describe('processPromise', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should resolve with the parsed body', async () => {
+        const value = await processPromise<{ name: string }, IProblemJson>(
+            Promise.resolve(jsonResponse({ name: 'enzo' })),
+        );
+
+        expect(value).toEqual({ name: 'enzo' });
+    });
+
+    it('should reject with the problem json', async () => {
+        const problem = { title: 'Not found', status: 404 };
+
+        try {
+            await processPromise<any, IProblemJson>(
+                Promise.resolve(
+                    jsonResponse(problem, 404, 'application/problem+json'),
+                ),
+            );
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toEqual(problem);
+        }
+    });
+
+    it('should abort the request started by HttpClient on cancel', done => {
+        const fetchMock = delayedFetch(() => jsonResponse({}), 100);
+        global.fetch = fetchMock;
+
+        const client = new HttpClient('http://localhost');
+
+        const promise = processPromise<any, IProblemJson>(signal =>
+            client.get('/users/1', {}, { signal }),
+        );
+
+        promise
+            .ok(() => {
+                throw new Error('it should not get to ok');
+            })
+            .cancelled(reason => {
+                const init = fetchMock.mock.calls[0][1];
+
+                expect(init?.signal?.aborted).toBe(true);
+                expect(reason).toBe('unmounted');
+                done();
+            });
+
+        promise.cancel('unmounted');
+    });
+
+    it('should fail with a timeout problem if the client times out', async () => {
+        global.fetch = delayedFetch(() => jsonResponse({}), 100);
+
+        const client = new HttpClient('http://localhost', { timeout: 20 });
+
+        try {
+            await processPromise<any, IProblemJson>(client.get('/users/1'));
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toMatchObject({
+                type: TIMEOUT_PROBLEM_TYPE,
+                status: 0,
+            });
+        }
+    });
+
+    it('should time out if the body stalls after the headers', async () => {
+        // the headers arrive but the body never ends
+        const stalled = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('{"id":'));
+            },
+        });
+        global.fetch = jest.fn(() =>
+            Promise.resolve(
+                new Response(stalled, {
+                    headers: { 'Content-Type': 'application/json' },
+                }),
+            ),
+        );
+
+        const client = new HttpClient('http://localhost', { timeout: 20 });
+
+        const result = await processPromise<any, IProblemJson>(
+            client.get('/users/1'),
+        ).toResult();
+
+        expect(result).toMatchObject({
+            ok: false,
+            error: { type: TIMEOUT_PROBLEM_TYPE, status: 0 },
+        });
+    });
+
+    it('should prefer the request timeout over the client one', async () => {
+        global.fetch = delayedFetch(() => jsonResponse({ id: 1 }), 50);
+
+        const client = new HttpClient('http://localhost', { timeout: 20 });
+
+        const value = await processPromise<any, IProblemJson>(
+            client.get('/users/1', {}, { timeout: 200 }),
+        );
+
+        expect(value).toEqual({ id: 1 });
+    });
+});
+
+describe('processPromise response decoding', () => {
+    const decode = (response: Response, options = {}) =>
+        processPromise<any, IProblemJson>(Promise.resolve(response), options);
+
+    it('should parse the +json media types', async () => {
+        const value = await decode(
+            jsonResponse({ id: 1 }, 200, 'application/vnd.api+json'),
+        );
+
+        expect(value).toEqual({ id: 1 });
+    });
+
+    it('should resolve text responses as a string', async () => {
+        const value = await decode(
+            new Response('hello', {
+                headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+            }),
+        );
+
+        expect(value).toBe('hello');
+    });
+
+    it('should resolve responses without body as undefined', async () => {
+        const value = await decode(
+            new Response(null, {
+                status: 204,
+                headers: { 'Content-Type': 'application/json' },
+            }),
+        );
+
+        expect(value).toBeUndefined();
+    });
+
+    it('should parse each line of a ndjson response', async () => {
+        const value = await decode(
+            new Response('{"id":1}\n{"id":2}\n', {
+                headers: { 'Content-Type': 'application/x-ndjson' },
+            }),
+        );
+
+        expect(value).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should return the raw text and warn on invalid json', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const value = await decode(
+            new Response('{ oops', {
+                headers: { 'Content-Type': 'application/json' },
+            }),
+        );
+
+        expect(value).toBe('{ oops');
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    it('should keep the invalid ndjson lines as text', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const value = await decode(
+            new Response('{"id":1}\n{ oops\n', {
+                headers: { 'Content-Type': 'application/x-ndjson' },
+            }),
+        );
+
+        expect(value).toEqual([{ id: 1 }, '{ oops']);
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    it('should use the forced response type', async () => {
+        const value = await decode(jsonResponse({ id: 1 }), {
+            responseType: 'arrayBuffer',
+        });
+
+        expect(new TextDecoder().decode(value)).toBe('{"id":1}');
+    });
+
+    it('should resolve with the buffer and content type', async () => {
+        const value = await processPromiseAsArrayBuffer<IProblemJson>(
+            Promise.resolve(
+                new Response('abc', {
+                    headers: { 'Content-Type': 'image/png' },
+                }),
+            ),
+        );
+
+        expect(value.contentType).toBe('image/png');
+        expect(value.buffer.byteLength).toBe(3);
+    });
+});
+
+describe('processPromise validation', () => {
+    interface User {
+        name: string;
+    }
+
+    const isUser = (value: unknown): value is User =>
+        typeof (value as User)?.name === 'string';
+
+    // minimal Standard Schema that only checks the `name` property
+    const userSchema: StandardSchema<User> = {
+        '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: value =>
+                isUser(value)
+                    ? { value }
+                    : {
+                          issues: [
+                              {
+                                  message: 'Expected a string',
+                                  path: ['users', { key: 0 }, 'name'],
+                              },
+                          ],
+                      },
+        },
+    };
+
+    it('should resolve with the value if it passes the type guard', async () => {
+        const user = await processPromise(
+            Promise.resolve(jsonResponse({ name: 'enzo' })),
+            { validate: isUser },
+        );
+
+        expect(user.name).toBe('enzo');
+    });
+
+    it('should fail with the invalid paths of a schema', async () => {
+        try {
+            await processPromise(Promise.resolve(jsonResponse({ name: 1 })), {
+                validate: userSchema,
+            });
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toMatchObject({
+                type: VALIDATION_PROBLEM_TYPE,
+                status: 200,
+                issues: [
+                    { path: '$.users[0].name', message: 'Expected a string' },
+                ],
+            });
+        }
+    });
+
+    it('should fail with a validation problem if the validator throws', async () => {
+        try {
+            await processPromise(
+                Promise.resolve(jsonResponse({ name: 1 }, 201)),
+                {
+                    validate: (value: unknown): value is User => {
+                        if (isUser(value)) return true;
+                        throw new Error('Expected a user');
+                    },
+                },
+            );
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toMatchObject({
+                type: VALIDATION_PROBLEM_TYPE,
+                status: 201,
+                issues: [{ path: '$', message: 'Expected a user' }],
+            });
+        }
+    });
+
+    it('should validate the problem body', async () => {
+        try {
+            await processPromise<User, IProblemJson>(
+                Promise.resolve(
+                    jsonResponse(
+                        { title: 1, status: 400 },
+                        400,
+                        'application/problem+json',
+                    ),
+                ),
+                {
+                    validateProblem: () => ({
+                        issues: [{ path: '$.title', message: 'Not a string' }],
+                    }),
+                },
+            );
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toMatchObject({
+                type: VALIDATION_PROBLEM_TYPE,
+                status: 400,
+                issues: [{ path: '$.title', message: 'Not a string' }],
+            });
+        }
+    });
+});
+
+describe('processPromiseWithMeta', () => {
+    it('should resolve with the body and the response metadata', async () => {
+        const response = new Response(JSON.stringify({ id: 1 }), {
+            status: 201,
+            headers: {
+                'Content-Type': 'application/json',
+                Location: '/users/1',
+            },
+        });
+
+        const result = await processPromiseWithMeta<
+            { id: number },
+            IProblemJson
+        >(Promise.resolve(response));
+
+        expect(result.data).toEqual({ id: 1 });
+        expect(result.status).toBe(201);
+        expect(result.headers.get('Location')).toBe('/users/1');
+        expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should fail with the problem and the response metadata', async () => {
+        const response = jsonResponse(
+            { title: 'Too many requests' },
+            429,
+            'application/problem+json',
+        );
+        response.headers.set('Retry-After', '10');
+
+        try {
+            await processPromiseWithMeta<any, IProblemJson>(
+                Promise.resolve(response),
+            );
+            throw Error('it should have thrown');
+        } catch (e: any) {
+            expect(e.problem).toEqual({
+                title: 'Too many requests',
+                status: 429,
+            });
+            expect(e.status).toBe(429);
+            expect(e.headers.get('Retry-After')).toBe('10');
+        }
+    });
+
+    it('should have status 0 if there was no response', async () => {
+        try {
+            await processPromiseWithMeta<any, IProblemJson>(
+                Promise.reject(new TypeError('Failed to fetch')),
+            );
+            throw Error('it should have thrown');
+        } catch (e: any) {
+            expect(e.status).toBe(0);
+            expect(e.problem.status).toBe(0);
+        }
+    });
+});
+
+describe('processPromise progress', () => {
+    it('should report the download progress', async () => {
+        const callback = jest.fn();
+        const body = JSON.stringify({ name: 'enzo' });
+
+        const value = await processPromise<any, IProblemJson>(
+            Promise.resolve(
+                new Response(body, {
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Content-Length': String(body.length),
+                    },
+                }),
+            ),
+        ).progress(callback);
+
+        expect(value).toEqual({ name: 'enzo' });
+        expect(callback).toHaveBeenLastCalledWith({
+            loaded: body.length,
+            total: body.length,
+            direction: 'download',
+        });
+    });
+
+    it('should report the upload progress', async () => {
+        const callback = jest.fn();
+        const client = new MockHttpClient('http://api');
+        let received = '';
+
+        client.onPost('/files').replyWith(async request => {
+            received = await new Response(request.body).text();
+            return new Response(null, { status: 204 });
+        });
+
+        await processPromise<void, IProblemJson>((signal, progress) =>
+            client.post('/files', 'x'.repeat(100_000), {
+                signal,
+                onUploadProgress: progress,
+            }),
+        ).progress(callback);
+
+        expect(received).toHaveLength(100_000);
+        expect(callback.mock.calls.map(([p]) => p.loaded)).toEqual([
+            65_536, 100_000,
+        ]);
+        expect(callback).toHaveBeenLastCalledWith({
+            loaded: 100_000,
+            total: 100_000,
+            direction: 'upload',
+        });
+    });
+});
@@ -0,0 +1,201 @@
+import processStream from '../src/Http/ProcessStream';
+import IProblemJson from '../src/Http/IProblemJson';
+import {
+    readLines,
+    readServerSentEvents,
+    EventStreamState,
+} from '../src/Http/StreamDecoders';
+import { VALIDATION_PROBLEM_TYPE } from '../src/Http/ProblemTypes';
+import CancellationError from '../src/CancellationError';
+
+/**
+ * Stream of the chunks, it stays open if `close` is false.
+ */
+const streamOf = (chunks: string[], close = true) => {
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            if (close) controller.close();
+        },
+    });
+};
+
+const streamResponse = (
+    chunks: string[],
+    contentType = 'application/x-ndjson',
+    close = true,
+) =>
+    new Response(streamOf(chunks, close), {
+        headers: { 'Content-Type': contentType },
+    });
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+};
+
+describe('readLines', () => {
+    it('should split lines across chunks and line ends', async () => {
+        const lines = await collect(
+            readLines(streamOf(['a\r', '\nb\nc', 'd\re\r\n', 'f'])),
+        );
+
+        expect(lines).toEqual(['a', 'b', 'cd', 'e', 'f']);
+    });
+});
+
+describe('readServerSentEvents', () => {
+    it('should parse the events with their fields', async () => {
+        const state: EventStreamState = { lastEventId: '' };
+
+        const events = await collect(
+            readServerSentEvents(
+                streamOf([
+                    ': comment\n',
+                    'data: first\n\n',
+                    'event: update\nid: 7\ndata: line 1\n',
+                    'data:line 2\nretry: 500\n\n',
+                    'id: 8\n\n',
+                    'data: last',
+                ]),
+                state,
+            ),
+        );
+
+        expect(events).toEqual([
+            { event: 'message', data: 'first', id: '' },
+            { event: 'update', data: 'line 1\nline 2', id: '7' },
+        ]);
+        expect(state).toEqual({ lastEventId: '8', retry: 500 });
+    });
+});
+
+describe('processStream', () => {
+    it('should yield each ndjson line as it arrives', async () => {
+        const stream = processStream<{ n: number }, IProblemJson>(
+            Promise.resolve(
+                streamResponse(['{"n":1}\n{"n"', ':2}\n', '\n{"n":3}']),
+            ),
+        );
+
+        expect(await collect(stream)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    });
+
+    it('should yield the data of the server-sent events', async () => {
+        const items = await processStream<number, IProblemJson>(
+            Promise.resolve(
+                streamResponse(
+                    ['event: tick\ndata: 1\n\n', 'data: 2\n\n'],
+                    'text/event-stream',
+                ),
+            ),
+        ).toArray();
+
+        expect(items).toEqual([1, 2]);
+    });
+
+    it('should fail with the problem of a failed response', async () => {
+        const result = await processStream<number, IProblemJson>(
+            Promise.resolve(
+                new Response(JSON.stringify({ title: 'Gone', status: 410 }), {
+                    status: 410,
+                    headers: { 'Content-Type': 'application/problem+json' },
+                }),
+            ),
+        )
+            .forEach(() => {})
+            .toResult();
+
+        expect(result).toEqual({
+            ok: false,
+            cancelled: false,
+            error: { title: 'Gone', status: 410 },
+        });
+    });
+
+    it('should throw the problem when iterated', async () => {
+        try {
+            await collect(
+                processStream<number, IProblemJson>(
+                    Promise.reject(new TypeError('Failed to fetch')),
+                ),
+            );
+            throw Error('it should have thrown');
+        } catch (e: any) {
+            expect(e.status).toBe(0);
+            expect(e.title).toBe('Network error');
+        }
+    });
+
+    it('should fail with a validation problem on an invalid item', async () => {
+        const isNumber = (value: unknown): value is number =>
+            typeof value === 'number';
+
+        const items: number[] = [];
+
+        const result = await processStream(
+            Promise.resolve(streamResponse(['1\n2\n"three"\n4\n'])),
+            { validate: isNumber },
+        )
+            .forEach(item => items.push(item))
+            .toResult();
+
+        expect(items).toEqual([1, 2]);
+        expect(!result.ok && !result.cancelled && result.error.type).toBe(
+            VALIDATION_PROBLEM_TYPE,
+        );
+    });
+
+    it('should abort the request when cancelled', async () => {
+        let signal: AbortSignal | undefined;
+
+        const stream = processStream<number, IProblemJson>(s => {
+            signal = s;
+            return Promise.resolve(streamResponse(['1\n'], undefined, false));
+        });
+
+        const iterator = stream[Symbol.asyncIterator]();
+
+        expect(await iterator.next()).toEqual({ done: false, value: 1 });
+
+        const pending = iterator.next();
+        stream.cancel('bye');
+
+        await expect(pending).rejects.toBeInstanceOf(CancellationError);
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it('should abort the request on break', async () => {
+        let signal: AbortSignal | undefined;
+
+        const stream = processStream<number, IProblemJson>(s => {
+            signal = s;
+            return Promise.resolve(
+                streamResponse(['1\n2\n'], undefined, false),
+            );
+        });
+
+        for await (const item of stream) {
+            expect(item).toBe(1);
+            break;
+        }
+
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it('should cancel the stream when forEach is cancelled', async () => {
+        const stream = processStream<number, IProblemJson>(() =>
+            Promise.resolve(streamResponse([], undefined, false)),
+        );
+
+        const promise = stream.forEach(() => {});
+        promise.cancel();
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(stream.signal.aborted).toBe(true);
+    });
+});
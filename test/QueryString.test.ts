@@ -0,0 +1,59 @@
+import { encodeQuery } from '../src/Http/QueryString';
+
+describe('encodeQuery', () => {
+    it('should encode keys and values', () => {
+        expect(encodeQuery({ 'a b': 'c&d', e: 1, f: true })).toBe(
+            'a%20b=c%26d&e=1&f=true',
+        );
+    });
+
+    it('should skip null and undefined values', () => {
+        expect(encodeQuery({ a: null, b: undefined, c: 0 })).toBe('c=0');
+        expect(encodeQuery({ a: null, b: undefined }, { nulls: 'empty' })).toBe(
+            'a=',
+        );
+    });
+
+    it('should encode arrays in every format', () => {
+        const params = { a: [1, 2] };
+
+        expect(encodeQuery(params)).toBe('a=1&a=2');
+        expect(encodeQuery(params, { arrayFormat: 'brackets' })).toBe(
+            'a%5B%5D=1&a%5B%5D=2',
+        );
+        expect(encodeQuery(params, { arrayFormat: 'comma' })).toBe('a=1,2');
+    });
+
+    it('should encode nested objects', () => {
+        const params = { filter: { name: 'enzo', age: { gt: 18 } } };
+
+        expect(decodeURIComponent(encodeQuery(params))).toBe(
+            'filter[name]=enzo&filter[age][gt]=18',
+        );
+        expect(encodeQuery(params, { objectFormat: 'dots' })).toBe(
+            'filter.name=enzo&filter.age.gt=18',
+        );
+    });
+
+    it('should index arrays of objects', () => {
+        expect(
+            decodeURIComponent(
+                encodeQuery({ sort: [{ by: 'name' }, { by: 'age' }] }),
+            ),
+        ).toBe('sort[0][by]=name&sort[1][by]=age');
+    });
+
+    it('should encode dates as ISO strings', () => {
+        const date = new Date(Date.UTC(2024, 0, 2));
+
+        expect(encodeQuery({ from: date })).toBe(
+            'from=' + encodeURIComponent('2024-01-02T00:00:00.000Z'),
+        );
+        expect(
+            encodeQuery(
+                { from: date },
+                { serializeDate: d => String(d.getUTCFullYear()) },
+            ),
+        ).toBe('from=2024');
+    });
+});
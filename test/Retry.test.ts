@@ -0,0 +1,205 @@
+import processPromise from '../src/Http/ProcessPromise';
+import HttpClient from '../src/Http/HttpClient';
+import IProblemJson from '../src/Http/IProblemJson';
+import { IRetryAttempt } from '../src/Http/IRetryPolicy';
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify({ status }), {
+        status,
+        headers: { 'Content-Type': 'application/problem+json', ...headers },
+    });
+
+const ok = () =>
+    new Response(JSON.stringify({ id: 1 }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+    });
+
+describe('Retry', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should retry a GET until it succeeds', async () => {
+        const fetchMock = jest
+            .fn()
+            .mockResolvedValueOnce(response(503))
+            .mockRejectedValueOnce(new TypeError('fetch failed'))
+            .mockResolvedValueOnce(ok());
+        global.fetch = fetchMock;
+
+        const attempts: IRetryAttempt[] = [];
+        const client = new HttpClient('http://localhost', {
+            retry: {
+                baseDelay: 1,
+                jitter: false,
+                onAttempt: attempt => attempts.push(attempt),
+            },
+        });
+
+        const value = await processPromise<any, IProblemJson>(
+            client.get('/users/1'),
+        );
+
+        expect(value).toEqual({ id: 1 });
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(attempts.map(a => [a.attempt, a.willRetry, a.delay])).toEqual([
+            [1, true, 1],
+            [2, true, 2],
+            [3, false, 0],
+        ]);
+        expect(attempts[1].problem?.status).toBe(0);
+    });
+
+    it('should fail with the last problem once there are no attempts left', async () => {
+        const fetchMock = jest.fn(() => Promise.resolve(response(502)));
+        global.fetch = fetchMock;
+
+        const client = new HttpClient('http://localhost', {
+            retry: { maxAttempts: 2, baseDelay: 1 },
+        });
+
+        try {
+            await processPromise<any, IProblemJson>(client.get('/users/1'));
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toEqual({ status: 502 });
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        }
+    });
+
+    it('should not retry a POST unless it opts in', async () => {
+        const fetchMock = jest.fn(() => Promise.resolve(response(503)));
+        global.fetch = fetchMock;
+
+        const client = new HttpClient('http://localhost', {
+            retry: { baseDelay: 1 },
+        });
+
+        await client.post('/users', {});
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        await client.post('/users', {}, { retry: { methods: ['POST'] } });
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry a non retryable problem', async () => {
+        const fetchMock = jest.fn(() => Promise.resolve(response(404)));
+        global.fetch = fetchMock;
+
+        const client = new HttpClient('http://localhost', {
+            retry: { baseDelay: 1 },
+        });
+
+        await client.get('/users/1');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honor Retry-After', async () => {
+        const fetchMock = jest
+            .fn()
+            .mockResolvedValueOnce(response(429, { 'Retry-After': '0.05' }))
+            .mockResolvedValueOnce(ok());
+        global.fetch = fetchMock;
+
+        const onAttempt = jest.fn();
+
+        await processPromise<any, IProblemJson>(
+            signal => fetch('http://localhost/users/1', { signal }),
+            { retry: { method: 'GET', baseDelay: 5000, onAttempt } },
+        );
+
+        expect(onAttempt.mock.calls[0][0].delay).toBe(50);
+    });
+
+    it('should cap Retry-After with maxDelay', async () => {
+        const fetchMock = jest
+            .fn()
+            .mockResolvedValueOnce(response(503, { 'Retry-After': '120' }))
+            .mockResolvedValueOnce(ok());
+        global.fetch = fetchMock;
+
+        const onAttempt = jest.fn();
+
+        await processPromise<any, IProblemJson>(
+            signal => fetch('http://localhost/users/1', { signal }),
+            { retry: { method: 'GET', maxDelay: 10, onAttempt } },
+        );
+
+        expect(onAttempt.mock.calls[0][0].delay).toBe(10);
+    });
+
+    it('should only retry a request function with a retried method', async () => {
+        const fetchMock = jest.fn(() => Promise.resolve(response(503)));
+        global.fetch = fetchMock;
+
+        const request = (signal: AbortSignal) =>
+            fetch('http://localhost/users', { method: 'POST', signal });
+        const retry = { method: 'POST', maxAttempts: 2, baseDelay: 1 };
+
+        await processPromise(request, { retry }).toResult();
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        await processPromise(request, {
+            retry: { ...retry, methods: ['POST'] },
+        }).toResult();
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry a request with a stream body', async () => {
+        const fetchMock = jest.fn(() => Promise.resolve(response(503)));
+        global.fetch = fetchMock;
+
+        const client = new HttpClient('http://localhost', {
+            retry: { baseDelay: 1 },
+        });
+        const body = new Blob(['data']).stream();
+
+        const result = await client.put('/files/1', body).then(r => r.status);
+
+        expect(result).toBe(503);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the body of the responses that are retried', async () => {
+        const failed = response(503);
+        global.fetch = jest
+            .fn()
+            .mockResolvedValueOnce(failed)
+            .mockResolvedValueOnce(ok());
+
+        const client = new HttpClient('http://localhost', {
+            retry: { baseDelay: 1 },
+        });
+
+        await client.get('/users/1');
+
+        expect(failed.bodyUsed).toBe(true);
+    });
+
+    it('should cancel the wait between attempts', done => {
+        const fetchMock = jest.fn(() => Promise.resolve(response(503)));
+        global.fetch = fetchMock;
+
+        const promise = processPromise<any, IProblemJson>(
+            signal => fetch('http://localhost/users/1', { signal }),
+            {
+                retry: {
+                    method: 'GET',
+                    baseDelay: 5000,
+                    jitter: false,
+                    onAttempt: () => promise.cancel(),
+                },
+            },
+        );
+
+        promise.cancelled(() => {
+            setTimeout(() => {
+                expect(fetchMock).toHaveBeenCalledTimes(1);
+                done();
+            }, 20);
+        });
+    });
+});
@@ -1,8 +1,10 @@
 /* eslint-disable no-throw-literal */
-import TypedPromise from '../src/TypedPromise';
+import TypedPromise, { Progress } from '../src/TypedPromise';
+import CancellationError, { isCancellation } from '../src/CancellationError';
+import { isTimeout } from '../src/TimeoutError';
 
 describe('Typed promise general tests', () => {
-    it('should call ok', () => {
+    it('should call ok', async () => {
         //
         const promise = new TypedPromise<string, number>((ok, fail) => ok('a'));
 
@@ -10,6 +12,7 @@ describe('Typed promise general tests', () => {
 
         //
         promise.ok(callbackOk);
+        await Promise.resolve();
 
         //
         expect(callbackOk).toHaveBeenCalledTimes(1);
@@ -34,7 +37,7 @@ describe('Typed promise general tests', () => {
         });
     });
 
-    it('should call fail', () => {
+    it('should call fail', async () => {
         //
         const promise = new TypedPromise<string, { title: string }>(
             (ok, fail) => fail({ title: 'invalid name' }),
@@ -44,6 +47,7 @@ describe('Typed promise general tests', () => {
 
         //
         promise.ok(() => { }).fail(callbackFail);
+        await Promise.resolve();
 
         //
         expect(callbackFail).toHaveBeenCalledTimes(1);
@@ -194,4 +198,840 @@ describe('Typed promise async/await', () => {
             }
         }
     });
-});
\ No newline at end of file
+});
+describe('Typed promise chaining', () => {
+    it('should map the ok value into a new promise', done => {
+        const promise = new TypedPromise<{ name: string }, number>(ok =>
+            setTimeout(() => ok({ name: 'enzo' }), 50),
+        );
+
+        const mapped = promise.map(dto => dto.name.length);
+
+        expect(mapped).not.toBe(promise);
+
+        mapped.ok(v => {
+            expect(v).toBe(4);
+            done();
+        });
+    });
+
+    it('should keep the fail value when mapping', done => {
+        const promise = new TypedPromise<number, string>((_, fail) =>
+            setTimeout(() => fail('nope'), 50),
+        );
+
+        promise
+            .map(v => v * 2)
+            .ok(() => {
+                throw new Error('it should not get to ok');
+            })
+            .fail(e => {
+                expect(e).toBe('nope');
+                done();
+            });
+    });
+
+    it('should reject the mapped promise if the callback throws', done => {
+        const promise = new TypedPromise<number, string>(ok => ok(1));
+
+        promise
+            .map(() => {
+                throw 'thrown';
+            })
+            .fail(e => {
+                expect(e).toBe('thrown');
+                done();
+            });
+    });
+
+    it('should flatten the promise returned by flatMap', done => {
+        const promise = new TypedPromise<number, string>(ok =>
+            setTimeout(() => ok(2), 50),
+        );
+
+        promise
+            .flatMap(
+                v =>
+                    new TypedPromise<string, number>(ok =>
+                        setTimeout(() => ok('x'.repeat(v)), 50),
+                    ),
+            )
+            .ok(v => {
+                expect(v).toBe('xx');
+                done();
+            });
+    });
+
+    it('should reject with the inner error on flatMap', done => {
+        const promise = new TypedPromise<number, string>(ok => ok(2));
+
+        promise
+            .flatMap(() => new TypedPromise<string, number>((_, fail) => fail(418)))
+            .fail(e => {
+                expect(e).toBe(418);
+                done();
+            });
+    });
+
+    it('should cancel the inner promise of flatMap', async () => {
+        let innerSignal: AbortSignal | undefined;
+
+        const flattened = new TypedPromise<number, string>(ok => ok(1)).flatMap(
+            v =>
+                new TypedPromise<number, string>((_, __, signal) => {
+                    innerSignal = signal;
+                }),
+        );
+
+        await Promise.resolve();
+        await Promise.resolve();
+        flattened.cancel('gone');
+
+        expect(innerSignal?.aborted).toBe(true);
+    });
+
+    it('should cancel flatMap if the inner promise is cancelled', async () => {
+        const inner = new TypedPromise<number, string>(() => {});
+
+        const flattened = new TypedPromise<number, string>(ok => ok(1)).flatMap(
+            () => inner,
+        );
+
+        setTimeout(() => inner.cancel('gone'));
+
+        expect(await flattened.toResult()).toEqual({
+            ok: false,
+            cancelled: true,
+            reason: 'gone',
+        });
+    });
+
+    it('should map the fail value', done => {
+        const promise = new TypedPromise<number, { status: number }>(
+            (_, fail) => setTimeout(() => fail({ status: 404 }), 50),
+        );
+
+        promise
+            .mapFail(problem => `status ${problem.status}`)
+            .fail(e => {
+                expect(e).toBe('status 404');
+                done();
+            });
+    });
+
+    it('should cancel the derived promise if the source is cancelled', done => {
+        const promise = new TypedPromise<number, number>(ok =>
+            setTimeout(() => ok(1), 50),
+        );
+
+        promise
+            .map(v => v + 1)
+            .ok(() => {
+                throw new Error('it should not get to ok');
+            })
+            .cancelled(() => done());
+
+        promise.cancel();
+    });
+});
+
+describe('Typed promise multiple subscribers', () => {
+    it('should call every ok listener in order', done => {
+        const promise = new TypedPromise<string, number>(ok =>
+            setTimeout(() => ok('a'), 50),
+        );
+
+        const calls: string[] = [];
+
+        promise.ok(v => void calls.push('first ' + v));
+        promise.ok(v => void calls.push('second ' + v));
+
+        promise.finally(() => {
+            // listener attached after settlement
+            promise.ok(v => void calls.push('third ' + v));
+
+            queueMicrotask(() => {
+                expect(calls).toEqual(['first a', 'second a', 'third a']);
+                done();
+            });
+        });
+    });
+
+    it('should call every fail listener once', done => {
+        const promise = new TypedPromise<string, number>((_, fail) =>
+            setTimeout(() => fail(418), 50),
+        );
+
+        const first = jest.fn();
+        const second = jest.fn();
+
+        promise.fail(first).fail(second);
+
+        promise.finally(() => {
+            const late = jest.fn();
+            promise.fail(late);
+
+            queueMicrotask(() => {
+                expect(first).toHaveBeenCalledTimes(1);
+                expect(second).toHaveBeenCalledTimes(1);
+                expect(late).toHaveBeenCalledWith(418);
+                done();
+            });
+        });
+    });
+
+    it('should keep the fail listeners when awaited', async () => {
+        const promise = new TypedPromise<string, number>((_, fail) =>
+            setTimeout(() => fail(418), 50),
+        );
+
+        const callbackFail = jest.fn();
+
+        promise.fail(callbackFail);
+
+        try {
+            await promise;
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toBe(418);
+        }
+
+        expect(callbackFail).toHaveBeenCalledWith(418);
+    });
+
+    it('should call every cancelled listener', done => {
+        const promise = new TypedPromise<string, number>(ok =>
+            setTimeout(() => ok('a'), 50),
+        );
+
+        const first = jest.fn();
+
+        promise.cancelled(first).cancelled(() => {
+            expect(first).toHaveBeenCalledTimes(1);
+            done();
+        });
+
+        promise.cancel();
+    });
+});
+
+describe('Typed promise scheduling', () => {
+    it('should call the listeners asynchronously even if settled', async () => {
+        const calls: string[] = [];
+
+        const promise = new TypedPromise<string, number>(ok => {
+            ok('a');
+            calls.push('executor');
+        });
+
+        promise.ok(() => void calls.push('ok'));
+        calls.push('after ok');
+
+        await Promise.resolve();
+
+        expect(calls).toEqual(['executor', 'after ok', 'ok']);
+    });
+
+    it('should call the listeners synchronously with sync scheduling', () => {
+        const callbackOk = jest.fn();
+
+        new TypedPromise<string, number>(ok => ok('a'), {
+            scheduling: 'sync',
+        }).ok(callbackOk);
+
+        expect(callbackOk).toHaveBeenCalledWith('a');
+    });
+
+    it('should ignore a second resolve or reject', async () => {
+        const callbackOk = jest.fn();
+        const callbackFail = jest.fn();
+
+        new TypedPromise<string, number>((ok, fail) => {
+            ok('a');
+            ok('b');
+            fail(1);
+        })
+            .ok(callbackOk)
+            .fail(callbackFail);
+
+        await Promise.resolve();
+
+        expect(callbackOk).toHaveBeenCalledTimes(1);
+        expect(callbackOk).toHaveBeenCalledWith('a');
+        expect(callbackFail).not.toHaveBeenCalled();
+    });
+
+    it('should reject if the executor throws', async () => {
+        const promise = new TypedPromise<string, string>(() => {
+            throw 'thrown';
+        });
+
+        try {
+            await promise;
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toBe('thrown');
+        }
+    });
+});
+
+describe('Typed promise combinators', () => {
+    const delayed = <T, F = never>(value: T, ms: number) =>
+        new TypedPromise<T, F>(ok => setTimeout(() => ok(value), ms));
+
+    const failing = <F>(error: F, ms: number) =>
+        new TypedPromise<never, F>((_, fail) =>
+            setTimeout(() => fail(error), ms),
+        );
+
+    it('should resolve all the values in order', async () => {
+        const values = await TypedPromise.all([
+            delayed(1, 60),
+            delayed('a', 20),
+        ]);
+
+        expect(values).toEqual([1, 'a']);
+    });
+
+    it('should reject all with the first error', async () => {
+        try {
+            await TypedPromise.all([delayed(1, 60), failing('nope', 20)]);
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toBe('nope');
+        }
+    });
+
+    it('should settle all the promises', async () => {
+        const cancelled = delayed(3, 20);
+        cancelled.cancel();
+
+        const results = await TypedPromise.allSettled([
+            delayed(1, 20),
+            failing(2, 20),
+            cancelled,
+        ]);
+
+        expect(results).toEqual([
+            { status: 'resolved', value: 1 },
+            { status: 'rejected', error: 2 },
+            { status: 'cancelled' },
+        ]);
+    });
+
+    it('should race the promises', async () => {
+        const value = await TypedPromise.race([
+            delayed('slow', 60),
+            delayed('fast', 20),
+        ]);
+
+        expect(value).toBe('fast');
+    });
+
+    it('should resolve any with the first value', async () => {
+        const value = await TypedPromise.any([
+            failing('nope', 10),
+            delayed('ok', 30),
+        ]);
+
+        expect(value).toBe('ok');
+    });
+
+    it('should reject any with all the errors', async () => {
+        try {
+            await TypedPromise.any([failing('a', 30), failing('b', 10)]);
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toEqual(['a', 'b']);
+        }
+    });
+
+    it('should keep racing when a member is cancelled', async () => {
+        const cancelledMember = delayed('cancelled', 10);
+        const sibling = delayed('sibling', 30);
+
+        const race = TypedPromise.race([cancelledMember, sibling]);
+        cancelledMember.cancel();
+
+        expect(await race).toBe('sibling');
+        expect(await sibling.toResult()).toEqual({
+            ok: true,
+            value: 'sibling',
+        });
+    });
+
+    it('should count a cancelled member of any as not resolved', async () => {
+        const cancelledMember = delayed('cancelled', 10);
+
+        const any = TypedPromise.any([cancelledMember, failing('b', 30)]);
+        cancelledMember.cancel();
+
+        expect(await any.toResult()).toEqual({
+            ok: false,
+            cancelled: false,
+            error: [undefined, 'b'],
+        });
+    });
+
+    it('should cancel race and any when every member is cancelled', async () => {
+        const members = [delayed(1, 10), delayed(2, 10)];
+        const race = TypedPromise.race(members);
+        const any = TypedPromise.any(members);
+
+        members.forEach(member => member.cancel('gone'));
+
+        const cancelled = { ok: false, cancelled: true, reason: 'gone' };
+
+        expect(await race.toResult()).toEqual(cancelled);
+        expect(await any.toResult()).toEqual(cancelled);
+    });
+
+    it('should cancel the pending members', done => {
+        const slow = delayed(1, 60);
+        const cancelledMember = jest.fn();
+
+        slow.cancelled(cancelledMember);
+
+        const aggregate = TypedPromise.all([slow, delayed(2, 10)]);
+
+        aggregate
+            .ok(() => {
+                throw new Error('it should not get to ok');
+            })
+            .cancelled(() => {
+                expect(cancelledMember).toHaveBeenCalledTimes(1);
+                done();
+            });
+
+        setTimeout(() => aggregate.cancel(), 20);
+    });
+});
+
+describe('Typed promise cancellation signal', () => {
+    it('should abort the executor signal on cancel', done => {
+        const promise = new TypedPromise<number, number>((ok, _, signal) => {
+            const timer = setTimeout(() => ok(1), 100);
+
+            signal.addEventListener('abort', () => {
+                clearTimeout(timer);
+                expect(signal.reason).toBe('reason');
+                ok(0);
+            });
+        });
+
+        promise.cancelled(reason => {
+            expect(reason).toBe('reason');
+            done();
+        });
+
+        promise.cancel('reason');
+    });
+
+    it('should be cancelled by an external signal', done => {
+        const controller = new AbortController();
+
+        const promise = new TypedPromise<number, number>(
+            (ok, _, signal) => signal.addEventListener('abort', () => ok(0)),
+            { signal: controller.signal },
+        );
+
+        promise.cancelled(reason => {
+            expect(reason).toBe('external');
+            done();
+        });
+
+        controller.abort('external');
+    });
+
+    it('should cancel the source when a derived promise is cancelled', done => {
+        const source = new TypedPromise<number, number>((ok, _, signal) =>
+            signal.addEventListener('abort', () => ok(0)),
+        );
+
+        const derived = source.map(v => v + 1);
+
+        source.cancelled(() => done());
+
+        derived.cancel();
+    });
+
+    it('should not cancel the source if it has its own listeners', async () => {
+        let resolve: (value: number) => void = () => {};
+        const source = new TypedPromise<number, number>(ok => {
+            resolve = ok;
+        });
+        const callbackOk = jest.fn();
+
+        source.ok(callbackOk);
+        source.map(v => v + 1).cancel();
+        resolve(2);
+
+        expect(await source).toBe(2);
+        expect(callbackOk).toHaveBeenCalledWith(2);
+    });
+
+    it('should not cancel the siblings of a cancelled derived promise', async () => {
+        let resolve: (value: number) => void = () => {};
+        const source = new TypedPromise<number, number>(ok => {
+            resolve = ok;
+        });
+
+        const first = source.map(v => v + 1);
+        const second = source.map(v => v * 2);
+        const callbackCancelled = jest.fn();
+
+        source.cancelled(callbackCancelled);
+        first.cancel();
+        resolve(2);
+
+        expect(await second).toBe(4);
+        expect(callbackCancelled).not.toHaveBeenCalled();
+
+        const last = new TypedPromise<number, number>(() => {});
+        const mapped = [last.map(v => v), last.map(v => v)];
+
+        mapped.forEach(promise => promise.cancel('gone'));
+
+        expect(await last.toResult()).toEqual({
+            ok: false,
+            cancelled: true,
+            reason: 'gone',
+        });
+    });
+});
+
+describe('Typed promise cancellation error', () => {
+    it('should reject await with a CancellationError', async () => {
+        const promise = new TypedPromise<number, number>(ok =>
+            setTimeout(() => ok(1), 50),
+        );
+
+        const before = Date.now();
+        promise.cancel('unmounted');
+
+        try {
+            await promise;
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(isCancellation(e)).toBe(true);
+
+            const error = e as CancellationError;
+            expect(error.reason).toBe('unmounted');
+            expect(error.timestamp).toBeGreaterThanOrEqual(before);
+        }
+    });
+
+    it('should not consider other errors a cancellation', () => {
+        expect(isCancellation(new Error('nope'))).toBe(false);
+        expect(isCancellation({ cancelled: true })).toBe(false);
+    });
+
+    it('should call cancelled without waiting for the work to settle', done => {
+        const promise = new TypedPromise<number, number>(() => {
+            // never settles
+        });
+
+        promise.cancelled(() => done());
+        promise.cancel();
+    });
+});
+
+describe('Typed promise timeout', () => {
+    it('should reject with a TimeoutError and abort the work', async () => {
+        let aborted: any;
+
+        const promise = new TypedPromise<number, string>((ok, _, signal) => {
+            setTimeout(() => ok(1), 100);
+            signal.addEventListener('abort', () => (aborted = signal.reason));
+        });
+
+        try {
+            await promise.timeout(20);
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(isTimeout(e)).toBe(true);
+            expect(aborted).toBe(e);
+        }
+    });
+
+    it('should reject with the custom timeout failure', async () => {
+        const promise = new TypedPromise<number, string>(ok =>
+            setTimeout(() => ok(1), 100),
+        );
+
+        try {
+            await promise.timeout(20, () => 'too slow');
+            throw Error('it should have thrown');
+        } catch (e) {
+            expect(e).toBe('too slow');
+        }
+    });
+
+    it('should resolve if it settles in time', async () => {
+        const promise = new TypedPromise<number, string>(ok =>
+            setTimeout(() => ok(1), 10),
+        );
+
+        expect(await promise.timeout(100)).toBe(1);
+    });
+});
+
+describe('Typed promise result interop', () => {
+    it('should settle into an ok result', async () => {
+        const result = await new TypedPromise<number, string>(ok =>
+            ok(1),
+        ).toResult();
+
+        expect(result).toEqual({ ok: true, value: 1 });
+    });
+
+    it('should settle into a typed error result', async () => {
+        const result = await new TypedPromise<number, { code: number }>(
+            (_, fail) => fail({ code: 404 }),
+        ).toResult();
+
+        if (result.ok || result.cancelled) {
+            throw new Error('it should be a failure');
+        }
+
+        expect(result.error.code).toBe(404);
+    });
+
+    it('should settle into a cancelled result', async () => {
+        const promise = new TypedPromise<number, string>(() => {});
+        const result = promise.toResult();
+
+        promise.cancel('unmounted');
+
+        expect(await result).toEqual({
+            ok: false,
+            cancelled: true,
+            reason: 'unmounted',
+        });
+    });
+
+    it('should create promises from results', async () => {
+        const failed = await TypedPromise.fromResult<number, string>({
+            ok: false,
+            cancelled: false,
+            error: 'oops',
+        }).toResult();
+        const cancelled = jest.fn();
+
+        TypedPromise.fromResult({
+            ok: false,
+            cancelled: true,
+            reason: 'a',
+        }).cancelled(cancelled);
+        await Promise.resolve();
+
+        expect(failed).toEqual({ ok: false, cancelled: false, error: 'oops' });
+        expect(cancelled).toHaveBeenCalledWith('a');
+    });
+
+    it('should lift a native promise mapping its error', async () => {
+        const result = await TypedPromise.fromPromise(
+            Promise.reject(new Error('oops')),
+            error => ({ message: (error as Error).message }),
+        ).toResult();
+
+        expect(result).toEqual({
+            ok: false,
+            cancelled: false,
+            error: { message: 'oops' },
+        });
+        expect(await TypedPromise.fromPromise(Promise.resolve(2))).toBe(2);
+    });
+
+    it('should convert to a native promise', async () => {
+        const promise = new TypedPromise<number, string>(() => {});
+        const native = promise.toPromise();
+
+        expect(native).toBeInstanceOf(Promise);
+
+        promise.cancel('unmounted');
+
+        await expect(native).rejects.toBeInstanceOf(CancellationError);
+        await expect(
+            new TypedPromise<number, string>((_, fail) =>
+                fail('oops'),
+            ).toPromise(),
+        ).rejects.toBe('oops');
+    });
+});
+
+describe('Typed promise unhandled failures', () => {
+    // the reports are made in a timer started by the ones of the tests,
+    // the nested timer runs after them even if the event loop was busy
+    const sleep = () =>
+        new Promise(resolve => setTimeout(() => setTimeout(resolve, 5), 5));
+    let onUnhandled: jest.Mock;
+
+    beforeEach(() => {
+        onUnhandled = jest.fn();
+        TypedPromise.onUnhandledFailure = onUnhandled;
+    });
+
+    afterEach(() => {
+        TypedPromise.onUnhandledFailure = null;
+    });
+
+    it('should report a failure without listeners', async () => {
+        const promise = new TypedPromise<number, string>((_, fail) =>
+            setTimeout(() => fail('oops')),
+        );
+
+        await sleep();
+
+        expect(onUnhandled).toHaveBeenCalledWith({
+            error: 'oops',
+            promise,
+            creationStack: expect.stringContaining('TypedPromise created'),
+        });
+    });
+
+    it('should not report a failure handled in the same tick', async () => {
+        const promise = new TypedPromise<number, string>((_, fail) =>
+            fail('oops'),
+        );
+        promise.fail(() => {});
+
+        await sleep();
+
+        expect(onUnhandled).not.toHaveBeenCalled();
+    });
+
+    it('should not report an awaited failure', async () => {
+        try {
+            await new TypedPromise<number, string>((_, fail) => fail('oops'));
+        } catch (e) {
+            expect(e).toBe('oops');
+        }
+
+        await sleep();
+
+        expect(onUnhandled).not.toHaveBeenCalled();
+    });
+
+    it('should only report the end of a chain', async () => {
+        const mapped = new TypedPromise<number, string>((_, fail) =>
+            fail('oops'),
+        ).map(value => value * 2);
+
+        await sleep();
+
+        expect(onUnhandled).toHaveBeenCalledTimes(1);
+        expect(onUnhandled.mock.calls[0][0].promise).toBe(mapped);
+    });
+
+    it('should not report cancelled promises', async () => {
+        new TypedPromise<number, string>(() => {}).cancel();
+
+        await sleep();
+
+        expect(onUnhandled).not.toHaveBeenCalled();
+    });
+
+    it('should keep calling the listeners after one throws', async () => {
+        const promise = new TypedPromise<number, string>(ok =>
+            setTimeout(() => ok(1)),
+        );
+        const second = jest.fn();
+        const callbackFinally = jest.fn();
+        const mapped = jest.fn();
+        const error = new Error('listener');
+
+        promise
+            .ok(() => {
+                throw error;
+            })
+            .ok(second)
+            .finally(callbackFinally);
+
+        promise.map(value => value + 1).ok(mapped);
+
+        expect(await promise).toBe(1);
+
+        await sleep();
+
+        expect(second).toHaveBeenCalledWith(1);
+        expect(callbackFinally).toHaveBeenCalledTimes(1);
+        expect(mapped).toHaveBeenCalledWith(2);
+        expect(onUnhandled).toHaveBeenCalledTimes(1);
+        expect(onUnhandled).toHaveBeenCalledWith(
+            expect.objectContaining({ error, promise, thrown: true }),
+        );
+    });
+
+    it('should report a listener added after settling that throws', async () => {
+        const promise = new TypedPromise<number, string>((_, fail) =>
+            fail('oops'),
+        );
+        const late = jest.fn();
+
+        await promise.toResult();
+
+        promise
+            .fail(() => {
+                throw 'thrown';
+            })
+            .fail(late);
+
+        await sleep();
+
+        expect(late).toHaveBeenCalledWith('oops');
+        expect(onUnhandled).toHaveBeenCalledWith(
+            expect.objectContaining({ error: 'thrown', thrown: true }),
+        );
+    });
+
+    it('should not report a thrown error consumed by catch', async () => {
+        const callbackCatch = jest.fn();
+
+        new TypedPromise<number, string>(ok => ok(1))
+            .ok(() => {
+                throw 'thrown';
+            })
+            .catch(callbackCatch);
+
+        await sleep();
+
+        expect(callbackCatch).toHaveBeenCalledWith('thrown');
+        expect(onUnhandled).not.toHaveBeenCalled();
+    });
+});
+
+describe('Typed promise progress', () => {
+    it('should call the progress listeners until it settles', () => {
+        const callback = jest.fn();
+        let report: (progress: Progress) => void = () => {};
+        let resolve: (value: number) => void = () => {};
+
+        new TypedPromise<number, string>((ok, _, __, progress) => {
+            report = progress;
+            resolve = ok;
+        }).progress(callback);
+
+        report({ loaded: 1, total: 2 });
+        resolve(1);
+        report({ loaded: 2, total: 2 });
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith({ loaded: 1, total: 2 });
+    });
+
+    it('should forward the progress through map', () => {
+        const callback = jest.fn();
+        let report: (progress: Progress) => void = () => {};
+
+        new TypedPromise<number, string>((_, __, ___, progress) => {
+            report = progress;
+        })
+            .map(value => value * 2)
+            .progress(callback);
+
+        report({ loaded: 5 });
+
+        expect(callback).toHaveBeenCalledWith({ loaded: 5 });
+    });
+});
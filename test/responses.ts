@@ -0,0 +1,17 @@
+// responses shared by the tests that stub fetch
+
+export const jsonResponse = (
+    body: any,
+    status = 200,
+    contentType = 'application/json',
+) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': contentType },
+    });
+
+export const problemResponse = (
+    body: any,
+    status = 400,
+    contentType = 'application/problem+json',
+) => jsonResponse(body, status, contentType);